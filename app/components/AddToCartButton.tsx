@@ -1,5 +1,6 @@
 import {CartForm, type OptimisticCartLineInput} from '@shopify/hydrogen';
 import type {FetcherWithComponents} from '@remix-run/react';
+import type {CartUserError} from '@shopify/hydrogen/storefront-api-types';
 import clsx from 'clsx';
 
 export function AddToCartButton({
@@ -44,32 +45,43 @@ export function AddToCartButton({
     >
       {(fetcher: FetcherWithComponents<any>) => {
         const isLoading = fetcher.state !== 'idle';
+        // e.g. a quantity that breaks the variant's quantity rule
+        const userErrors: CartUserError[] = isLoading
+          ? []
+          : fetcher.data?.userErrors ?? [];
         
         return (
-          <button
-            type="submit"
-            className={clsx(
-              baseStyles,
-              variantStyles[variant],
-              widthStyles[width],
-              defaultPadding,
-              className
+          <>
+            <button
+              type="submit"
+              className={clsx(
+                baseStyles,
+                variantStyles[variant],
+                widthStyles[width],
+                defaultPadding,
+                className
+              )}
+              disabled={disabled || isLoading}
+              {...props}
+            >
+              {isLoading ? (
+                <span className="flex items-center gap-2">
+                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  <span>Adding...</span>
+                </span>
+              ) : (
+                children
+              )}
+            </button>
+            {userErrors.length > 0 && (
+              <p role="alert" className="mt-2 text-sm text-red-600">
+                {userErrors[0].message}
+              </p>
             )}
-            disabled={disabled || isLoading}
-            {...props}
-          >
-            {isLoading ? (
-              <span className="flex items-center gap-2">
-                <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                <span>Adding...</span>
-              </span>
-            ) : (
-              children
-            )}
-          </button>
+          </>
         );
       }}
     </CartForm>
@@ -0,0 +1,69 @@
+import {useFetcher} from '@remix-run/react';
+
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * "Notify me" signup for a sold out variant. Each variant has its own fetcher,
+ * so switching options shows a fresh form.
+ */
+export function BackInStockForm({variantId}: {variantId: string}) {
+  const fetcher = useFetcher<{isNew?: boolean; error?: string}>({
+    key: `back-in-stock-${variantId}`,
+  });
+  const action = usePrefixPathWithLocale('/api/back-in-stock');
+
+  const isSubmitting = fetcher.state !== 'idle';
+  const isSignedUp =
+    fetcher.state === 'idle' && typeof fetcher.data?.isNew === 'boolean';
+
+  if (isSignedUp) {
+    return (
+      <p role="status" className="text-sm text-neutral-700">
+        {fetcher.data?.isNew
+          ? 'Thanks! We’ll email you when this item is back in stock.'
+          : 'You’re already on the list for this item.'}
+      </p>
+    );
+  }
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={action}
+      className="space-y-3"
+      data-test="back-in-stock-form"
+    >
+      <label
+        htmlFor={`back-in-stock-${variantId}`}
+        className="text-xs tracking-[0.2em] uppercase text-neutral-500 block"
+      >
+        Email me when it’s back
+      </label>
+      <input type="hidden" name="variantId" value={variantId} />
+      <div className="flex gap-2">
+        <input
+          id={`back-in-stock-${variantId}`}
+          type="email"
+          name="email"
+          required
+          autoComplete="email"
+          placeholder="Email address"
+          aria-invalid={Boolean(fetcher.data?.error)}
+          className="flex-1 min-w-0 bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none transition-colors"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-6 py-3 border border-neutral-900 text-sm tracking-[0.15em] uppercase font-medium text-neutral-900 hover:border-violet-600 hover:text-violet-600 transition-colors disabled:opacity-50"
+        >
+          Notify me
+        </button>
+      </div>
+      {fetcher.state === 'idle' && fetcher.data?.error && (
+        <p role="alert" className="text-sm text-red-600">
+          {fetcher.data.error}
+        </p>
+      )}
+    </fetcher.Form>
+  );
+}
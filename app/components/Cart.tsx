@@ -1,5 +1,5 @@
 import clsx from 'clsx';
-import {useRef} from 'react';
+import {useEffect, useRef, useState} from 'react';
 import useScroll from 'react-use/esm/useScroll';
 import {
   flattenConnection,
@@ -16,8 +16,31 @@ import type {
   CartLine,
   CartLineUpdateInput,
 } from '@shopify/hydrogen/storefront-api-types';
+import {
+  useFetcher,
+  useFetchers,
+  type FetcherWithComponents,
+} from '@remix-run/react';
 
 import {Link} from '~/components/Link';
+import {CartRecommendations} from '~/components/CartRecommendations';
+import {SavedForLater, SaveForLaterButton} from '~/components/SavedForLater';
+import {getFreeShippingThreshold} from '~/data/shipping';
+import {getCartPermalink} from '~/lib/cart-permalink';
+import {
+  DISCOUNT_CODES_FETCHER_KEY,
+  getDiscountCodeReason,
+} from '~/lib/discounts';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import {getQuantityRule, stepQuantity} from '~/lib/quantity-rules';
+import {
+  CART_NOTE_MAX_LENGTH,
+  GIFT_ATTRIBUTE_KEY,
+  GIFT_MESSAGE_ATTRIBUTE_KEY,
+  GIFT_MESSAGE_MAX_LENGTH,
+  getGiftAttributes,
+  isVisibleAttribute,
+} from '~/lib/cart-attributes';
 
 type Layouts = 'page' | 'drawer';
 
@@ -58,42 +81,279 @@ export function CartDetails({
       <CartLines lines={cart?.lines} layout={layout} />
       {cartHasItems && (
         <CartSummary cost={cart.cost} layout={layout}>
-          <CartDiscounts discountCodes={cart.discountCodes} />
+          <CartShippingProgress cart={cart} />
+          <CartGift attributes={cart.attributes} />
+          <CartNote note={cart.note} />
+          <CartDiscounts
+            discountCodes={cart.discountCodes}
+            discountAllocations={cart.discountAllocations}
+          />
+          <CartGiftCards
+            appliedGiftCards={cart.appliedGiftCards}
+            totalAmount={cart.cost.totalAmount}
+          />
           <CartCheckoutActions checkoutUrl={cart.checkoutUrl} />
+          <CartShare cart={cart} />
         </CartSummary>
       )}
     </div>
   );
 }
 
+/**
+ * Subtotal of the cart including quantity changes and removals that are
+ * still being submitted, so the shipping progress moves with the buttons.
+ */
+function useOptimisticSubtotal(cart: CartType) {
+  const fetchers = useFetchers();
+  const lines = flattenConnection(cart.lines);
+  const quantities = new Map(lines.map(({id, quantity}) => [id, quantity]));
+  let isOptimistic = false;
+
+  for (const {formData} of fetchers) {
+    if (!formData) continue;
+    const {action, inputs} = CartForm.getFormInput(formData);
+
+    if (action === CartForm.ACTIONS.LinesUpdate) {
+      for (const {id, quantity} of inputs.lines as CartLineUpdateInput[]) {
+        if (!quantities.has(id) || typeof quantity !== 'number') continue;
+        quantities.set(id, quantity);
+        isOptimistic = true;
+      }
+    } else if (action === CartForm.ACTIONS.LinesRemove) {
+      for (const id of inputs.lineIds as string[]) {
+        quantities.set(id, 0);
+        isOptimistic = true;
+      }
+    }
+  }
+
+  if (!isOptimistic) return Number(cart.cost.subtotalAmount.amount);
+
+  return lines.reduce(
+    (sum, line) =>
+      sum +
+      Number(line.cost.amountPerQuantity.amount) *
+        (quantities.get(line.id) ?? line.quantity),
+    0,
+  );
+}
+
+function CartShippingProgress({cart}: {cart: CartType}) {
+  const subtotal = useOptimisticSubtotal(cart);
+  const {currencyCode} = cart.cost.subtotalAmount;
+  const threshold = getFreeShippingThreshold(currencyCode);
+
+  if (!threshold) return null;
+
+  const remaining = Math.max(0, threshold - subtotal);
+  const progress = Math.min(100, (subtotal / threshold) * 100);
+
+  return (
+    <div className="grid gap-2">
+      <p className="text-sm text-neutral-700" aria-live="polite">
+        {remaining > 0 ? (
+          <>
+            Spend{' '}
+            <Money
+              as="span"
+              withoutTrailingZeros
+              className="font-medium text-neutral-900"
+              data={{amount: remaining.toFixed(2), currencyCode}}
+            />{' '}
+            more for free shipping
+          </>
+        ) : (
+          'Free shipping unlocked'
+        )}
+      </p>
+      <div
+        role="progressbar"
+        aria-label="Progress towards free shipping"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress)}
+        className="h-1.5 w-full overflow-hidden rounded-full bg-neutral-200"
+      >
+        <div
+          className="h-full bg-violet-600 transition-all duration-500"
+          style={{width: `${progress}%`}}
+        />
+      </div>
+    </div>
+  );
+}
+
+function CartNote({note}: {note: CartType['note']}) {
+  return (
+    <details className="group" open={Boolean(note)}>
+      <summary className="cursor-pointer text-sm text-neutral-500 hover:text-neutral-900">
+        {note ? 'Order note' : 'Add an order note'}
+      </summary>
+      <CartForm route="/cart" action={CartForm.ACTIONS.NoteUpdate}>
+        {(fetcher: FetcherWithComponents<any>) => (
+          <div className="grid gap-2 mt-3">
+            <label htmlFor="cart-note" className="sr-only">
+              Order note
+            </label>
+            <textarea
+              id="cart-note"
+              name="note"
+              rows={3}
+              maxLength={CART_NOTE_MAX_LENGTH}
+              defaultValue={note ?? ''}
+              placeholder="Special instructions for your order"
+              className="w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 placeholder:text-neutral-400 focus:border-violet-500 focus:outline-none transition-colors"
+            />
+            <button
+              type="submit"
+              disabled={fetcher.state !== 'idle'}
+              className="justify-self-end px-4 py-2 text-xs tracking-wider uppercase text-neutral-600 hover:text-violet-600 border border-neutral-200 hover:border-violet-500 transition-colors disabled:opacity-50"
+            >
+              {fetcher.state !== 'idle' ? 'Saving…' : 'Save note'}
+            </button>
+          </div>
+        )}
+      </CartForm>
+    </details>
+  );
+}
+
+function CartGift({attributes}: {attributes: CartType['attributes']}) {
+  const savedIsGift = attributes.some(({key}) => key === GIFT_ATTRIBUTE_KEY);
+  const savedMessage =
+    attributes.find(({key}) => key === GIFT_MESSAGE_ATTRIBUTE_KEY)?.value ?? '';
+
+  const [isGift, setIsGift] = useState(savedIsGift);
+  const [message, setMessage] = useState(savedMessage);
+
+  const isDirty =
+    isGift !== savedIsGift || (isGift && message.trim() !== savedMessage);
+
+  return (
+    <CartForm
+      route="/cart"
+      action={CartForm.ACTIONS.AttributesUpdateInput}
+      inputs={{
+        attributes: getGiftAttributes(
+          attributes.map(({key, value}) => ({key, value: value ?? ''})),
+          {isGift, message},
+        ),
+      }}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <div className="grid gap-3">
+          <label className="flex items-center gap-2 text-sm text-neutral-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-violet-600"
+              checked={isGift}
+              onChange={(event) => setIsGift(event.target.checked)}
+            />
+            This order is a gift
+          </label>
+          {isGift && (
+            <>
+              <label htmlFor="cart-gift-message" className="sr-only">
+                Gift message
+              </label>
+              <textarea
+                id="cart-gift-message"
+                rows={2}
+                maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                value={message}
+                onChange={(event) => setMessage(event.target.value)}
+                placeholder="Gift message (optional)"
+                className="w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 placeholder:text-neutral-400 focus:border-violet-500 focus:outline-none transition-colors"
+              />
+            </>
+          )}
+          {isDirty && (
+            <button
+              type="submit"
+              disabled={fetcher.state !== 'idle'}
+              className="justify-self-end px-4 py-2 text-xs tracking-wider uppercase text-neutral-600 hover:text-violet-600 border border-neutral-200 hover:border-violet-500 transition-colors disabled:opacity-50"
+            >
+              {fetcher.state !== 'idle' ? 'Saving…' : 'Save gift options'}
+            </button>
+          )}
+        </div>
+      )}
+    </CartForm>
+  );
+}
+
 function CartDiscounts({
   discountCodes,
+  discountAllocations,
 }: {
   discountCodes: CartType['discountCodes'];
+  discountAllocations: CartType['discountAllocations'];
 }) {
-  const codes: string[] =
-    discountCodes
-      ?.filter((discount) => discount.applicable)
-      ?.map(({code}) => code) || [];
+  const fetcher = useFetcher<CartActionData>({key: DISCOUNT_CODES_FETCHER_KEY});
+  const codes = discountCodes.map(({code}) => code);
+  const warnings = fetcher.data?.warnings ?? [];
+  const userErrors =
+    fetcher.state === 'idle' ? fetcher.data?.userErrors ?? [] : [];
 
   return (
     <>
-      {/* Have existing discount, display it with a remove option */}
-      <dl className={codes && codes.length !== 0 ? 'grid' : 'hidden'}>
-        <div className="flex items-center justify-between">
-          <dt className="text-sm text-neutral-500">Discount(s)</dt>
-          <div className="flex items-center gap-2">
-            <UpdateDiscountForm>
-              <button className="text-neutral-400 hover:text-neutral-900 transition-colors">
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            </UpdateDiscountForm>
-            <dd className="text-sm text-violet-600">{codes?.join(', ')}</dd>
-          </div>
-        </div>
-      </dl>
+      {/* Each code on the cart, with its own remove option */}
+      {discountCodes.length > 0 && (
+        <ul aria-label="Discount codes" className="grid gap-2">
+          {discountCodes.map(({code, applicable}) => (
+            <li key={code} className="flex items-start justify-between gap-2">
+              <div className="grid">
+                <span
+                  className={clsx(
+                    'text-sm',
+                    applicable
+                      ? 'text-violet-600'
+                      : 'text-neutral-400 line-through',
+                  )}
+                >
+                  {code}
+                </span>
+                {!applicable && (
+                  <span className="text-xs text-neutral-500">
+                    {getDiscountCodeReason(code, discountCodes, warnings)}
+                  </span>
+                )}
+              </div>
+              <UpdateDiscountForm
+                discountCodes={codes.filter((otherCode) => otherCode !== code)}
+              >
+                <button
+                  aria-label={`Remove discount code ${code}`}
+                  className="text-neutral-400 hover:text-neutral-900 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </UpdateDiscountForm>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Order level discounts, line level ones are shown on each line */}
+      {discountAllocations.length > 0 && (
+        <dl className="grid gap-1">
+          {discountAllocations.map((allocation) => {
+            const title = getDiscountAllocationTitle(allocation);
+
+            return (
+              <div key={title} className="flex items-center justify-between">
+                <dt className="text-sm text-neutral-500">{title}</dt>
+                <dd className="text-sm text-violet-600">
+                  -<Money as="span" data={allocation.discountedAmount} />
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
 
       {/* Show an input to apply a discount */}
       <UpdateDiscountForm discountCodes={codes}>
@@ -103,16 +363,178 @@ function CartDiscounts({
             type="text"
             name="discountCode"
             placeholder="Discount code"
+            aria-label="Discount code"
           />
           <button className="px-4 py-3 text-sm tracking-wider uppercase text-neutral-600 hover:text-violet-600 border border-neutral-200 hover:border-violet-500 transition-colors">
             Apply
           </button>
         </div>
       </UpdateDiscountForm>
+      {userErrors.map(({message}) => (
+        <p key={message} role="alert" className="text-xs text-red-600">
+          {message}
+        </p>
+      ))}
+    </>
+  );
+}
+
+function getDiscountAllocationTitle(
+  allocation: CartType['discountAllocations'][number],
+) {
+  return 'code' in allocation ? allocation.code : allocation.title;
+}
+
+type CartActionData = {
+  userErrors?: Array<{message: string}>;
+  warnings?: Array<{code?: string; message: string}>;
+};
+
+function CartGiftCards({
+  appliedGiftCards,
+  totalAmount,
+}: {
+  appliedGiftCards: CartType['appliedGiftCards'];
+  totalAmount: CartCost['totalAmount'];
+}) {
+  // Gift cards are a payment method, so they aren't part of the cart total
+  const amountUsed = appliedGiftCards.reduce(
+    (sum, {presentmentAmountUsed}) =>
+      sum + Number(presentmentAmountUsed.amount),
+    0,
+  );
+  const amountDue = Math.max(0, Number(totalAmount.amount) - amountUsed);
+
+  return (
+    <>
+      {appliedGiftCards.length > 0 && (
+        <dl className="grid gap-2">
+          {appliedGiftCards.map((giftCard) => (
+            <div
+              key={giftCard.id}
+              className="flex items-center justify-between gap-2"
+            >
+              <dt className="text-sm text-neutral-500">
+                Gift card ···· {giftCard.lastCharacters}
+                <span className="block text-xs text-neutral-400">
+                  Remaining balance{' '}
+                  <Money
+                    as="span"
+                    withoutTrailingZeros
+                    data={giftCard.balance}
+                  />
+                </span>
+              </dt>
+              <div className="flex items-center gap-2">
+                <CartForm
+                  route="/cart"
+                  action={CartForm.ACTIONS.GiftCardCodesRemove}
+                  inputs={{giftCardCodes: [giftCard.id]}}
+                >
+                  <button
+                    type="submit"
+                    aria-label={`Remove gift card ending in ${giftCard.lastCharacters}`}
+                    className="text-neutral-400 hover:text-neutral-900 transition-colors"
+                  >
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                  </button>
+                </CartForm>
+                <dd className="text-sm text-violet-600">
+                  −
+                  <Money
+                    as="span"
+                    withoutTrailingZeros
+                    data={giftCard.presentmentAmountUsed}
+                  />
+                </dd>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <dt className="text-sm text-neutral-900">Due at checkout</dt>
+            <dd className="text-sm font-medium text-neutral-900">
+              <Money
+                withoutTrailingZeros
+                data={{
+                  amount: amountDue.toFixed(2),
+                  currencyCode: totalAmount.currencyCode,
+                }}
+              />
+            </dd>
+          </div>
+        </dl>
+      )}
+
+      <CartForm route="/cart" action={CartForm.ACTIONS.GiftCardCodesUpdate}>
+        {(fetcher: FetcherWithComponents<CartActionData>) => (
+          <GiftCardInput fetcher={fetcher} />
+        )}
+      </CartForm>
     </>
   );
 }
 
+function GiftCardInput({
+  fetcher,
+}: {
+  fetcher: FetcherWithComponents<CartActionData>;
+}) {
+  const [code, setCode] = useState('');
+  const isIdle = fetcher.state === 'idle';
+  const errors = isIdle
+    ? [...(fetcher.data?.userErrors ?? []), ...(fetcher.data?.warnings ?? [])]
+    : [];
+
+  // Clear the input once the card is applied
+  useEffect(() => {
+    if (isIdle && fetcher.data && !fetcher.data.userErrors?.length) {
+      setCode('');
+    }
+  }, [isIdle, fetcher.data]);
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center gap-2">
+        <input
+          className="flex-1 bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 placeholder:text-neutral-400 focus:border-violet-500 focus:outline-none transition-colors"
+          type="text"
+          name="giftCardCode"
+          placeholder="Gift card code"
+          aria-label="Gift card code"
+          aria-invalid={errors.length > 0}
+          autoComplete="off"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!isIdle || !code.trim()}
+          className="px-4 py-3 text-sm tracking-wider uppercase text-neutral-600 hover:text-violet-600 border border-neutral-200 hover:border-violet-500 transition-colors disabled:opacity-50"
+        >
+          Redeem
+        </button>
+      </div>
+      {errors.map(({message}) => (
+        <p key={message} role="alert" className="text-xs text-red-600">
+          {message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
 function UpdateDiscountForm({
   discountCodes,
   children,
@@ -124,6 +546,7 @@ function UpdateDiscountForm({
     <CartForm
       route="/cart"
       action={CartForm.ACTIONS.DiscountCodesUpdate}
+      fetcherKey={DISCOUNT_CODES_FETCHER_KEY}
       inputs={{
         discountCodes: discountCodes || [],
       }}
@@ -162,6 +585,12 @@ function CartLines({
           <CartLineItem key={line.id} line={line as CartLine} />
         ))}
       </ul>
+      <SavedForLater />
+      <CartRecommendations
+        productIds={currentLines.map(
+          (line) => (line as CartLine).merchandise.product.id,
+        )}
+      />
     </section>
   );
 }
@@ -182,6 +611,70 @@ function CartCheckoutActions({checkoutUrl}: {checkoutUrl: string}) {
   );
 }
 
+/**
+ * Shares a permalink that adds the current lines and discount codes to the
+ * recipient's own cart. Falls back to copying the link where the Web Share
+ * API is missing.
+ */
+function CartShare({cart}: {cart: CartType}) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+  const permalink = getCartPermalink({
+    lines: (flattenConnection(cart.lines) as CartLine[]).map(
+      ({merchandise, quantity, attributes, sellingPlanAllocation}) => ({
+        merchandiseId: merchandise.id,
+        quantity,
+        sellingPlanId: sellingPlanAllocation?.sellingPlan.id,
+        attributes,
+      }),
+    ),
+    discountCodes: cart.discountCodes
+      .filter(({applicable}) => applicable)
+      .map(({code}) => code),
+    merge: true,
+  });
+  const path = usePrefixPathWithLocale(permalink ?? '/cart');
+
+  useEffect(() => {
+    if (status === 'idle') return;
+    const timeout = setTimeout(() => setStatus('idle'), 3000);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  if (!permalink) return null;
+
+  async function share() {
+    const url = new URL(path, window.location.origin).toString();
+
+    try {
+      if (navigator.share) {
+        await navigator.share({title: 'My cart', url});
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+    } catch (error) {
+      // Closing the share sheet rejects with an AbortError
+      if ((error as Error).name !== 'AbortError') setStatus('error');
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <button
+        type="button"
+        onClick={share}
+        className="text-xs tracking-wider uppercase text-neutral-500 hover:text-violet-600 transition-colors"
+      >
+        Share cart
+      </button>
+      <span aria-live="polite" className="text-xs text-neutral-500">
+        {status === 'copied' && 'Link copied'}
+        {status === 'error' && 'Could not share the link'}
+      </span>
+    </div>
+  );
+}
+
 function CartSummary({
   cost,
   layout,
@@ -271,6 +764,30 @@ function CartLineItem({line}: {line: CartLine}) {
                 {option.name}: {option.value}
               </p>
             ))}
+            {line.sellingPlanAllocation && (
+              <p className="text-xs text-violet-600">
+                {line.sellingPlanAllocation.sellingPlan.name}
+              </p>
+            )}
+            {(line.attributes || [])
+              .filter(
+                (attribute) => attribute.value && isVisibleAttribute(attribute),
+              )
+              .map((attribute) => (
+                <p key={attribute.key} className="text-xs text-neutral-500">
+                  {attribute.key}: {attribute.value}
+                </p>
+              ))}
+            {(line.discountAllocations || []).map((allocation) => {
+              const title = getDiscountAllocationTitle(allocation);
+
+              return (
+                <p key={title} className="text-xs text-violet-600">
+                  {title} (-
+                  <Money as="span" data={allocation.discountedAmount} />)
+                </p>
+              );
+            })}
           </div>
         </div>
 
@@ -278,6 +795,10 @@ function CartLineItem({line}: {line: CartLine}) {
           <CartLineQuantityAdjust line={line} />
           <CartLinePrice line={line} as="span" className="text-sm font-medium text-neutral-900" />
         </div>
+        <CartLineQuantityError lineId={id} />
+        <div className="mt-2">
+          <SaveForLaterButton lineId={id} />
+        </div>
       </div>
 
       <ItemRemoveButton lineId={id} />
@@ -317,18 +838,22 @@ function CartLineQuantityAdjust({line}: {line: CartLine}) {
   const optimisticQuantity = optimisticData?.quantity || line.quantity;
 
   const {id: lineId} = line;
-  const prevQuantity = Number(Math.max(0, optimisticQuantity - 1).toFixed(0));
-  const nextQuantity = Number((optimisticQuantity + 1).toFixed(0));
+  const quantityRule = getQuantityRule(line.merchandise);
+  const prevQuantity = stepQuantity(optimisticQuantity, quantityRule, -1);
+  const nextQuantity = stepQuantity(optimisticQuantity, quantityRule, 1);
 
   return (
     <div className="flex items-center border border-neutral-200">
-      <UpdateCartButton lines={[{id: lineId, quantity: prevQuantity}]}>
+      <UpdateCartButton
+        lines={[{id: lineId, quantity: prevQuantity}]}
+        fetcherKey={getLineQuantityFetcherKey(lineId)}
+      >
         <button
           name="decrease-quantity"
           aria-label="Decrease quantity"
           className="w-8 h-8 flex items-center justify-center text-neutral-500 hover:text-neutral-900 transition-colors disabled:text-neutral-300 disabled:cursor-not-allowed"
           value={prevQuantity}
-          disabled={optimisticQuantity <= 1}
+          disabled={prevQuantity >= optimisticQuantity}
         >
           <span className="text-lg">−</span>
           <OptimisticInput
@@ -342,12 +867,16 @@ function CartLineQuantityAdjust({line}: {line: CartLine}) {
         {optimisticQuantity}
       </div>
 
-      <UpdateCartButton lines={[{id: lineId, quantity: nextQuantity}]}>
+      <UpdateCartButton
+        lines={[{id: lineId, quantity: nextQuantity}]}
+        fetcherKey={getLineQuantityFetcherKey(lineId)}
+      >
         <button
-          className="w-8 h-8 flex items-center justify-center text-neutral-500 hover:text-neutral-900 transition-colors"
+          className="w-8 h-8 flex items-center justify-center text-neutral-500 hover:text-neutral-900 transition-colors disabled:text-neutral-300 disabled:cursor-not-allowed"
           name="increase-quantity"
           value={nextQuantity}
           aria-label="Increase quantity"
+          disabled={nextQuantity <= optimisticQuantity}
         >
           <span className="text-lg">+</span>
           <OptimisticInput
@@ -360,16 +889,43 @@ function CartLineQuantityAdjust({line}: {line: CartLine}) {
   );
 }
 
+/**
+ * Server side errors of a line's quantity changes, e.g. a quantity that
+ * breaks the variant's quantity rule
+ */
+function CartLineQuantityError({lineId}: {lineId: CartLine['id']}) {
+  const fetcher = useFetcher<CartActionData>({
+    key: getLineQuantityFetcherKey(lineId),
+  });
+  const userErrors =
+    fetcher.state === 'idle' ? fetcher.data?.userErrors ?? [] : [];
+
+  if (!userErrors.length) return null;
+
+  return (
+    <p role="alert" className="mt-2 text-xs text-red-600">
+      {userErrors[0].message}
+    </p>
+  );
+}
+
+function getLineQuantityFetcherKey(lineId: CartLine['id']) {
+  return `line-quantity-${lineId}`;
+}
+
 function UpdateCartButton({
   children,
   lines,
+  fetcherKey,
 }: {
   children: React.ReactNode;
   lines: CartLineUpdateInput[];
+  fetcherKey?: string;
 }) {
   return (
     <CartForm
       route="/cart"
+      fetcherKey={fetcherKey}
       action={CartForm.ACTIONS.LinesUpdate}
       inputs={{
         lines,
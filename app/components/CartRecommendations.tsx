@@ -0,0 +1,137 @@
+import {useEffect, useState} from 'react';
+import {useFetcher} from '@remix-run/react';
+import {Image, Money} from '@shopify/hydrogen';
+
+import type {CartRecommendationFragment} from 'storefrontapi.generated';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {Link} from '~/components/Link';
+import {Skeleton} from '~/components/Skeleton';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * "Complete your setup" strip of complementary products for the cart lines.
+ * The recommendations are fetched after the cart renders, so opening the
+ * cart never waits on them.
+ */
+export function CartRecommendations({productIds}: {productIds: string[]}) {
+  const {load, data} = useFetcher<{products: CartRecommendationFragment[]}>();
+  const productIdsKey = Array.from(new Set(productIds)).sort().join(',');
+  const apiPath = usePrefixPathWithLocale(
+    `/api/cart-recommendations?productIds=${encodeURIComponent(productIdsKey)}`,
+  );
+
+  useEffect(() => {
+    if (productIdsKey) load(apiPath);
+  }, [load, apiPath, productIdsKey]);
+
+  if (!productIdsKey) return null;
+
+  if (!data) {
+    return (
+      <div className="grid gap-3 pt-6 border-t border-neutral-200">
+        <Skeleton className="w-40 h-4" />
+        <div className="flex gap-3">
+          <Skeleton className="w-20 h-20" />
+          <Skeleton className="w-20 h-20" />
+        </div>
+      </div>
+    );
+  }
+
+  const products = data.products.filter(
+    (product) => !productIds.includes(product.id),
+  );
+
+  if (!products.length) return null;
+
+  return (
+    <section
+      aria-labelledby="cart-recommendations"
+      className="grid gap-4 pt-6 border-t border-neutral-200"
+    >
+      <h2
+        id="cart-recommendations"
+        className="text-xs tracking-[0.2em] uppercase text-neutral-500"
+      >
+        Complete your setup
+      </h2>
+      <ul className="grid gap-4">
+        {products.map((product) => (
+          <CartRecommendationItem key={product.id} product={product} />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function CartRecommendationItem({
+  product,
+}: {
+  product: CartRecommendationFragment;
+}) {
+  const availableVariants = product.variants.nodes.filter(
+    (variant) => variant.availableForSale,
+  );
+  const [variantId, setVariantId] = useState(availableVariants[0]?.id);
+  const selectedVariant =
+    availableVariants.find(({id}) => id === variantId) ?? availableVariants[0];
+
+  if (!selectedVariant) return null;
+
+  const image = selectedVariant.image ?? product.featuredImage;
+
+  return (
+    <li className="flex gap-4">
+      <Link to={`/products/${product.handle}`} className="flex-shrink-0">
+        {image && (
+          <Image
+            width={80}
+            height={80}
+            data={image}
+            className="object-cover object-center w-16 h-16 bg-neutral-100"
+            alt={image.altText || product.title}
+          />
+        )}
+      </Link>
+      <div className="flex-1 grid gap-2 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <Link
+            to={`/products/${product.handle}`}
+            className="text-sm font-medium text-neutral-900 hover:text-violet-600 transition-colors truncate"
+          >
+            {product.title}
+          </Link>
+          <Money
+            withoutTrailingZeros
+            data={selectedVariant.price}
+            className="text-sm text-neutral-500"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          {availableVariants.length > 1 && (
+            <select
+              aria-label={`Choose ${product.title} option`}
+              value={selectedVariant.id}
+              onChange={(event) => setVariantId(event.target.value)}
+              className="min-w-0 flex-1 bg-neutral-100 border border-neutral-200 px-2 py-1 text-xs text-neutral-900 focus:border-violet-500 focus:outline-none"
+            >
+              {availableVariants.map((variant) => (
+                <option key={variant.id} value={variant.id}>
+                  {variant.title}
+                </option>
+              ))}
+            </select>
+          )}
+          <AddToCartButton
+            lines={[{merchandiseId: selectedVariant.id, quantity: 1}]}
+            variant="secondary"
+            width="auto"
+            className="px-3 py-1 text-xs tracking-wider uppercase"
+          >
+            Add
+          </AddToCartButton>
+        </div>
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,82 @@
+import clsx from 'clsx';
+import {useLocation} from '@remix-run/react';
+
+import {Link} from '~/components/Link';
+import {useCompareSelection} from '~/hooks/useCompareSelection';
+import {COMPARE_MAX_ITEMS, getComparePath} from '~/lib/compare';
+
+/**
+ * Adds a product to, or removes it from, the comparison. Once the maximum is
+ * reached, the toggle is disabled for products that aren't selected yet.
+ */
+export function CompareToggle({
+  productId,
+  className,
+}: {
+  productId: string;
+  className?: string;
+}) {
+  const {productIds, isFull, toggle} = useCompareSelection();
+  const isSelected = productIds.includes(productId);
+
+  return (
+    <label
+      className={clsx(
+        'flex items-center gap-2 text-xs tracking-[0.15em] uppercase',
+        !isSelected && isFull
+          ? 'text-neutral-400 cursor-not-allowed'
+          : 'text-neutral-500 hover:text-violet-600 cursor-pointer',
+        className,
+      )}
+      title={
+        !isSelected && isFull
+          ? `You can compare up to ${COMPARE_MAX_ITEMS} products`
+          : undefined
+      }
+    >
+      <input
+        type="checkbox"
+        className="accent-violet-600"
+        checked={isSelected}
+        disabled={!isSelected && isFull}
+        onChange={() => toggle(productId)}
+      />
+      Compare
+    </label>
+  );
+}
+
+/**
+ * Sticky bar linking to the compare page while products are selected.
+ */
+export function CompareBar() {
+  const {productIds, clear} = useCompareSelection();
+  const {pathname} = useLocation();
+
+  if (!productIds.length || /\/compare\/?$/.test(pathname)) return null;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 border-t border-neutral-200 bg-white/95 backdrop-blur-xl">
+      <div className="max-w-7xl mx-auto px-6 py-3 flex items-center justify-between gap-4">
+        <span className="text-sm text-neutral-600">
+          {productIds.length} of {COMPARE_MAX_ITEMS} products selected
+        </span>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={clear}
+            className="text-xs tracking-[0.15em] uppercase text-neutral-500 hover:text-neutral-900"
+          >
+            Clear
+          </button>
+          <Link
+            to={getComparePath(productIds)}
+            className="px-4 py-2 bg-neutral-900 text-white text-xs tracking-[0.2em] uppercase hover:bg-violet-600 transition-colors"
+          >
+            Compare
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,46 @@
+import {useEffect} from 'react';
+import {useNavigate} from '@remix-run/react';
+
 import {IconClose} from '~/components/Icon';
 import {Link} from '~/components/Link';
 
+type CancelEvent = Pick<Event, 'defaultPrevented' | 'preventDefault'>;
+
+/**
+ * A dialog closed by its close link, the Escape key or a click on the
+ * backdrop, which all navigate to `cancelLink`.
+ */
 export function Modal({
   children,
   cancelLink,
+  onCancel,
 }: {
   children: React.ReactNode;
   cancelLink: string;
+  /**
+   * Called when the modal is closed, before it navigates. Call
+   * `event.preventDefault()` to close it another way.
+   */
+  onCancel?: (event: CancelEvent) => void;
 }) {
+  const navigate = useNavigate();
+
+  const cancel = (event: CancelEvent) => {
+    onCancel?.(event);
+    if (!event.defaultPrevented) {
+      navigate(cancelLink, {preventScrollReset: true});
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') cancel(event);
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  });
+
   return (
     <div
       className="relative z-50"
@@ -18,7 +51,11 @@ export function Modal({
     >
       <div className="fixed inset-0 transition-opacity bg-opacity-75 bg-primary/40"></div>
       <div className="fixed inset-0 z-50 overflow-y-auto">
-        <div className="flex items-center justify-center min-h-full p-4 text-center sm:p-0">
+        <div
+          className="flex items-center justify-center min-h-full p-4 text-center sm:p-0"
+          role="presentation"
+          onClick={cancel}
+        >
           <div
             className="relative flex-1 px-4 pt-5 pb-4 overflow-hidden text-left transition-all transform rounded shadow-xl bg-contrast sm:my-12 sm:flex-none sm:w-full sm:max-w-sm sm:p-6"
             role="button"
@@ -30,9 +67,11 @@ export function Modal({
             }}
             tabIndex={0}
           >
-            <div className="absolute top-0 right-0 hidden pt-4 pr-4 sm:block">
+            <div className="absolute top-0 right-0 z-10 pt-4 pr-4">
               <Link
                 to={cancelLink}
+                onClick={onCancel}
+                preventScrollReset
                 className="p-4 -m-4 transition text-primary hover:text-primary/50"
               >
                 <IconClose aria-label="Close panel" />
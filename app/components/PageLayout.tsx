@@ -9,6 +9,9 @@ import {CartLoading} from '~/components/CartLoading';
 import {Drawer, useDrawer} from '~/components/Drawer';
 import {SheckleMan} from '~/components/SheckleMan';
 import {Nugget} from '~/components/Nugget';
+import {PredictiveSearch} from '~/components/PredictiveSearch';
+import {CompareBar} from '~/components/Compare';
+import {QuickView} from '~/components/QuickView';
 import {
   type EnhancedMenu,
   type ChildEnhancedMenuItem,
@@ -41,6 +44,8 @@ export function PageLayout({children, layout}: LayoutProps) {
           {children}
         </main>
         {footerMenu && <Footer menu={footerMenu} shopName={layout?.shop.name} />}
+        <CompareBar />
+        <QuickView />
       </div>
       {/* Easter egg characters */}
       <SheckleMan />
@@ -105,6 +110,29 @@ function Header({title, menu}: {title: string; menu?: EnhancedMenu}) {
             </button>
 
             <div className="flex items-center gap-2">
+              {/* Search */}
+              <PredictiveSearch />
+              {/* Wishlist */}
+              <Link
+                to="/wishlist"
+                prefetch="intent"
+                className="relative flex items-center justify-center w-10 h-10 text-neutral-500 hover:text-violet-600 transition-colors"
+                aria-label="Wishlist"
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={1.5}
+                    d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z"
+                  />
+                </svg>
+              </Link>
               {/* Cart */}
               <CartCount openCart={openCart} />
             </div>
@@ -0,0 +1,311 @@
+import {useId, useMemo, useState} from 'react';
+import {
+  Form,
+  useFetcher,
+  useNavigate,
+  useRouteLoaderData,
+} from '@remix-run/react';
+import useDebounce from 'react-use/esm/useDebounce';
+import {Image, Money} from '@shopify/hydrogen';
+import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+import clsx from 'clsx';
+
+import {Input} from '~/components/Input';
+import {Link} from '~/components/Link';
+import {IconSearch} from '~/components/Icon';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {RootLoader} from '~/root';
+import type {
+  loader as predictiveSearchLoader,
+  PredictiveSearchResults,
+} from '~/routes/($locale).api.predictive-search';
+
+const PREDICTIVE_SEARCH_DEBOUNCE = 300;
+const MIN_TERM_LENGTH = 2;
+
+type SearchItem = {
+  id: string;
+  to: string;
+  title: string;
+  group: 'queries' | 'products' | 'collections' | 'pages' | 'articles';
+  image?: {url: string; altText?: string | null} | null;
+  price?: MoneyV2 | null;
+  styledText?: string;
+};
+
+const GROUP_LABELS: Record<SearchItem['group'], string> = {
+  queries: 'Suggestions',
+  products: 'Products',
+  collections: 'Collections',
+  pages: 'Pages',
+  articles: 'Journal',
+};
+
+/**
+ * Header search input that shows typeahead results from the
+ * `api.predictive-search` resource route as the shopper types.
+ */
+export function PredictiveSearch({className}: {className?: string}) {
+  const listboxId = useId();
+  const navigate = useNavigate();
+  const rootData = useRouteLoaderData<RootLoader>('root');
+  const pathPrefix = rootData?.selectedLocale?.pathPrefix ?? '';
+  const searchPath = usePrefixPathWithLocale('/search');
+  const apiPath = usePrefixPathWithLocale('/api/predictive-search');
+  const fetcher = useFetcher<typeof predictiveSearchLoader>({
+    key: 'predictive-search',
+  });
+
+  const [term, setTerm] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useDebounce(
+    () => {
+      const trimmed = term.trim();
+      if (trimmed.length < MIN_TERM_LENGTH) return;
+      fetcher.load(`${apiPath}?q=${encodeURIComponent(trimmed)}`);
+    },
+    PREDICTIVE_SEARCH_DEBOUNCE,
+    [term],
+  );
+
+  const results = fetcher.data?.results as PredictiveSearchResults | undefined;
+  const items = useMemo(() => getSearchItems(results), [results]);
+  const showResults =
+    isOpen && term.trim().length >= MIN_TERM_LENGTH && Boolean(results);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const goTo = (to: string) => {
+    close();
+    setTerm('');
+    navigate(`${pathPrefix}${to}`);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (index + 1) % Math.max(items.length, 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? items.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        if (showResults && items[activeIndex]) {
+          event.preventDefault();
+          goTo(items[activeIndex].to);
+        }
+        break;
+      case 'Escape':
+        close();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className={clsx('relative', className)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+          close();
+        }
+      }}
+    >
+      <Form
+        method="get"
+        action={searchPath}
+        className="flex items-center gap-2"
+        onSubmit={close}
+      >
+        <button
+          type="submit"
+          className="relative flex items-center justify-center w-8 h-8 text-neutral-500 hover:text-violet-600 transition-colors"
+          aria-label="Search"
+        >
+          <IconSearch />
+        </button>
+        <Input
+          type="search"
+          variant="minisearch"
+          placeholder="Search"
+          name="q"
+          autoComplete="off"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showResults}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+          }
+          value={term}
+          onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+            setTerm(event.target.value);
+            setActiveIndex(-1);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={onKeyDown}
+        />
+      </Form>
+
+      {showResults && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-h-[70vh] overflow-y-auto bg-white border border-neutral-200 shadow-xl z-50">
+          {items.length ? (
+            <ul id={listboxId} role="listbox" className="py-2">
+              {items.map((item, index) => {
+                const isFirstInGroup = items[index - 1]?.group !== item.group;
+                return (
+                  <li
+                    key={`${item.group}-${item.id}`}
+                    id={`${listboxId}-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                  >
+                    {isFirstInGroup && (
+                      <p className="px-4 pt-3 pb-1 text-[10px] tracking-[0.2em] uppercase text-neutral-400">
+                        {GROUP_LABELS[item.group]}
+                      </p>
+                    )}
+                    <SearchResultLink
+                      item={item}
+                      isActive={index === activeIndex}
+                      onClick={() => {
+                        close();
+                        setTerm('');
+                      }}
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="px-4 py-6 text-sm text-neutral-500">
+              {fetcher.state === 'loading'
+                ? 'Searching…'
+                : `No results for “${results?.term}”`}
+            </p>
+          )}
+          <Link
+            to={`/search?q=${encodeURIComponent(term.trim())}`}
+            onClick={close}
+            className="block px-4 py-3 border-t border-neutral-200 text-xs tracking-[0.2em] uppercase text-neutral-600 hover:text-violet-600 transition-colors"
+          >
+            View all results →
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SearchResultLink({
+  item,
+  isActive,
+  onClick,
+}: {
+  item: SearchItem;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <Link
+      to={item.to}
+      onClick={onClick}
+      tabIndex={-1}
+      className={clsx(
+        'flex items-center gap-3 px-4 py-2 text-sm text-neutral-900 transition-colors',
+        isActive ? 'bg-neutral-100' : 'hover:bg-neutral-50',
+      )}
+    >
+      {item.group !== 'queries' && item.group !== 'pages' && (
+        <div className="flex-shrink-0 w-10 h-10 bg-neutral-100 overflow-hidden">
+          {item.image && (
+            <Image
+              data={item.image}
+              width={40}
+              height={40}
+              className="w-full h-full object-cover"
+              alt={item.image.altText || item.title}
+            />
+          )}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        {item.styledText ? (
+          <span
+            className="block truncate"
+            dangerouslySetInnerHTML={{__html: item.styledText}}
+          />
+        ) : (
+          <span className="block truncate">{item.title}</span>
+        )}
+        {item.price && (
+          <Money
+            withoutTrailingZeros
+            data={item.price}
+            className="text-xs text-neutral-500"
+          />
+        )}
+      </div>
+    </Link>
+  );
+}
+
+function getSearchItems(results?: PredictiveSearchResults): SearchItem[] {
+  if (!results) return [];
+
+  return [
+    ...results.queries.map(
+      (query): SearchItem => ({
+        id: query.text,
+        group: 'queries',
+        title: query.text,
+        styledText: query.styledText,
+        to: `/search?q=${encodeURIComponent(query.text)}`,
+      }),
+    ),
+    ...results.products.map(
+      (product): SearchItem => ({
+        id: product.id,
+        group: 'products',
+        title: product.title,
+        image: product.featuredImage,
+        price: product.selectedOrFirstAvailableVariant?.price,
+        to: `/products/${product.handle}`,
+      }),
+    ),
+    ...results.collections.map(
+      (collection): SearchItem => ({
+        id: collection.id,
+        group: 'collections',
+        title: collection.title,
+        image: collection.image,
+        to: `/collections/${collection.handle}`,
+      }),
+    ),
+    ...results.pages.map(
+      (page): SearchItem => ({
+        id: page.id,
+        group: 'pages',
+        title: page.title,
+        to: `/pages/${page.handle}`,
+      }),
+    ),
+    ...results.articles.map(
+      (article): SearchItem => ({
+        id: article.id,
+        group: 'articles',
+        title: article.title,
+        image: article.image,
+        to: `/journal/${article.handle}`,
+      }),
+    ),
+  ];
+}
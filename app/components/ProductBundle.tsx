@@ -0,0 +1,217 @@
+import {useState} from 'react';
+import {Image, Money} from '@shopify/hydrogen';
+import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+
+import type {
+  BundleProductFragment,
+  ProductVariantFragment,
+} from 'storefrontapi.generated';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {Link} from '~/components/Link';
+
+type BundleVariant = BundleProductFragment['variants']['nodes'][number];
+
+/**
+ * "Buy together" kit of the product with its bundle components. Shoppers pick
+ * a variant for each component and the whole kit is added in one submission.
+ * The variant of the product itself is the one selected on the page.
+ */
+export function ProductBundle({
+  title,
+  productTitle,
+  selectedVariant,
+  components,
+}: {
+  title: string;
+  productTitle: string;
+  selectedVariant: ProductVariantFragment;
+  components: BundleProductFragment[];
+}) {
+  const [variantIds, setVariantIds] = useState<Record<string, string>>({});
+
+  const componentVariants = components.map((product) => {
+    const availableVariants = product.variants.nodes.filter(
+      ({availableForSale}) => availableForSale,
+    );
+
+    return {
+      product,
+      availableVariants,
+      variant:
+        availableVariants.find(({id}) => id === variantIds[product.id]) ??
+        availableVariants[0],
+    };
+  });
+
+  // A kit that can't be bought whole isn't offered at all
+  if (
+    !components.length ||
+    !selectedVariant.availableForSale ||
+    componentVariants.some(({variant}) => !variant)
+  ) {
+    return null;
+  }
+
+  const variants: Array<BundleVariant | ProductVariantFragment> = [
+    selectedVariant,
+    ...componentVariants.map(({variant}) => variant!),
+  ];
+  const {currencyCode} = selectedVariant.price;
+  const total = sumAmounts(variants.map(({price}) => price));
+  const regularTotal = sumAmounts(
+    variants.map(({price, compareAtPrice}) =>
+      compareAtPrice && Number(compareAtPrice.amount) > Number(price.amount)
+        ? compareAtPrice
+        : price,
+    ),
+  );
+  const savings = regularTotal - total;
+
+  return (
+    <section
+      aria-labelledby="product-bundle"
+      className="border-t border-neutral-200 py-16 px-6"
+    >
+      <div className="max-w-7xl mx-auto grid gap-8">
+        <h2
+          id="product-bundle"
+          className="font-display text-3xl md:text-4xl text-neutral-900"
+        >
+          {title}
+        </h2>
+        <ul className="grid gap-6 md:grid-cols-3">
+          <BundleItem
+            title={productTitle}
+            variant={selectedVariant}
+            label="This item"
+          />
+          {componentVariants.map(({product, availableVariants, variant}) => (
+            <BundleItem
+              key={product.id}
+              title={product.title}
+              handle={product.handle}
+              variant={variant!}
+            >
+              {availableVariants.length > 1 && (
+                <select
+                  aria-label={`Choose ${product.title} option`}
+                  value={variant!.id}
+                  onChange={(event) =>
+                    setVariantIds((current) => ({
+                      ...current,
+                      [product.id]: event.target.value,
+                    }))
+                  }
+                  className="w-full bg-neutral-100 border border-neutral-200 px-3 py-2 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none"
+                >
+                  {availableVariants.map(({id, title}) => (
+                    <option key={id} value={id}>
+                      {title}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </BundleItem>
+          ))}
+        </ul>
+        <div className="flex flex-wrap items-center justify-between gap-6 p-6 bg-neutral-100">
+          <div className="grid gap-1">
+            <p className="text-sm text-neutral-500">
+              Total for {variants.length} items
+            </p>
+            <p className="flex items-baseline gap-3">
+              <Money
+                withoutTrailingZeros
+                data={{amount: total.toFixed(2), currencyCode}}
+                className="text-2xl font-medium text-neutral-900"
+              />
+              {savings > 0 && (
+                <Money
+                  withoutTrailingZeros
+                  data={{amount: regularTotal.toFixed(2), currencyCode}}
+                  className="text-lg text-neutral-400 line-through"
+                />
+              )}
+            </p>
+            {savings > 0 && (
+              <p className="text-sm text-violet-600">
+                You save{' '}
+                <Money
+                  as="span"
+                  withoutTrailingZeros
+                  data={{amount: savings.toFixed(2), currencyCode}}
+                />
+              </p>
+            )}
+          </div>
+          <AddToCartButton
+            lines={variants.map(({id}) => ({merchandiseId: id, quantity: 1}))}
+            variant="primary"
+            width="auto"
+            data-test="add-bundle-to-cart"
+          >
+            Add all {variants.length} to cart
+          </AddToCartButton>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function BundleItem({
+  title,
+  handle,
+  variant,
+  label,
+  children,
+}: {
+  title: string;
+  handle?: string;
+  variant: BundleVariant | ProductVariantFragment;
+  label?: string;
+  children?: React.ReactNode;
+}) {
+  return (
+    <li className="flex gap-4">
+      {variant.image && (
+        <Image
+          width={96}
+          height={96}
+          data={variant.image}
+          className="object-cover object-center w-24 h-24 bg-neutral-100 flex-shrink-0"
+          alt={variant.image.altText || title}
+        />
+      )}
+      <div className="grid gap-2 content-start min-w-0 flex-1">
+        {label && (
+          <span className="text-xs tracking-[0.2em] uppercase text-neutral-500">
+            {label}
+          </span>
+        )}
+        {handle ? (
+          <Link
+            to={`/products/${handle}`}
+            className="text-sm font-medium text-neutral-900 hover:text-violet-600 transition-colors"
+          >
+            {title}
+          </Link>
+        ) : (
+          <span className="text-sm font-medium text-neutral-900">{title}</span>
+        )}
+        {!children && variant.title !== 'Default Title' && (
+          <span className="text-xs text-neutral-500">{variant.title}</span>
+        )}
+        <Money
+          withoutTrailingZeros
+          data={variant.price}
+          className="text-sm text-neutral-500"
+        />
+        {children}
+      </div>
+    </li>
+  );
+}
+
+function sumAmounts(amounts: MoneyV2[]) {
+  return amounts.reduce((sum, {amount}) => sum + Number(amount), 0);
+}
@@ -5,8 +5,13 @@ import type {MoneyV2, Product} from '@shopify/hydrogen/storefront-api-types';
 import type {ProductCardFragment} from 'storefrontapi.generated';
 import {Link} from '~/components/Link';
 import {AddToCartButton} from '~/components/AddToCartButton';
+import {WishlistButton} from '~/components/WishlistButton';
+import {CompareToggle} from '~/components/Compare';
+import {QuickViewLink} from '~/components/QuickView';
+import {StarRating} from '~/components/StarRating';
 import {isDiscounted, isNewArrival} from '~/lib/utils';
 import {getProductPlaceholder} from '~/lib/placeholders';
+import {parseRatingMetafields, type ReviewSummary} from '~/lib/reviews';
 
 export function ProductCard({
   product,
@@ -16,7 +21,11 @@ export function ProductCard({
   onClick,
   quickAdd,
 }: {
-  product: ProductCardFragment;
+  /**
+   * `reviewSummary` is the summary of the storefront reviews, see
+   * `withReviewSummaries`, otherwise the `reviews.rating` metafields are shown
+   */
+  product: ProductCardFragment & {reviewSummary?: ReviewSummary | null};
   label?: string;
   className?: string;
   loading?: HTMLImageElement['loading'];
@@ -34,6 +43,9 @@ export function ProductCard({
 
   if (!firstVariant) return null;
   const {image, price, compareAtPrice} = firstVariant;
+  const rating =
+    product.reviewSummary ??
+    parseRatingMetafields(product.rating?.value, product.ratingCount?.value);
 
   if (label) {
     cardLabel = label;
@@ -44,7 +56,11 @@ export function ProductCard({
   }
 
   return (
-    <div className={clsx('flex flex-col', className)}>
+    <div className={clsx('group relative flex flex-col', className)}>
+      <WishlistButton
+        productId={product.id}
+        className="absolute top-3 left-3 z-10"
+      />
       <Link
         onClick={onClick}
         to={`/products/${product.handle}`}
@@ -71,17 +87,11 @@ export function ProductCard({
               {cardLabel}
             </span>
           )}
-
-          {/* Quick view button on hover */}
-          <div className="absolute bottom-0 left-0 right-0 p-4 translate-y-full group-hover:translate-y-0 transition-transform duration-500">
-            <span className="block w-full py-3 bg-white text-black text-xs tracking-[0.2em] uppercase text-center">
-              Quick View
-            </span>
-          </div>
         </div>
 
         <div className="p-4 space-y-2">
           <h3 className="text-sm font-medium truncate">{product.title}</h3>
+          {rating && <StarRating rating={rating.rating} count={rating.count} />}
           <div className="flex items-center gap-2">
             <Money 
               withoutTrailingZeros 
@@ -96,6 +106,20 @@ export function ProductCard({
           </div>
         </div>
       </Link>
+
+      {/* Quick view button on hover, kept outside the product link */}
+      <div className="pointer-events-none absolute inset-x-0 top-0 aspect-[3/4] overflow-hidden">
+        <div className="absolute bottom-0 left-0 right-0 p-4 translate-y-full group-hover:translate-y-0 focus-within:translate-y-0 transition-transform duration-500">
+          <QuickViewLink
+            handle={product.handle}
+            className="pointer-events-auto block w-full py-3 bg-white text-black text-xs tracking-[0.2em] uppercase text-center"
+          >
+            Quick View
+          </QuickViewLink>
+        </div>
+      </div>
+
+      <CompareToggle productId={product.id} className="px-4 pb-4" />
       
       {quickAdd && firstVariant.availableForSale && (
         <div className="px-4 pb-4">
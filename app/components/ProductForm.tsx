@@ -0,0 +1,607 @@
+import {useState} from 'react';
+import {Link} from '@remix-run/react';
+import {
+  Money,
+  ShopPayButton,
+  type MappedProductOptions,
+} from '@shopify/hydrogen';
+import clsx from 'clsx';
+import type {
+  Maybe,
+  MoneyV2,
+  ProductOptionValueSwatch,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import type {
+  ProductVariantFragment,
+  SellingPlanGroupFragment,
+} from 'storefrontapi.generated';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {BackInStockForm} from '~/components/BackInStockForm';
+import type {LineAttributeField} from '~/lib/cart-attributes';
+import {LOW_STOCK_THRESHOLD} from '~/lib/const';
+import {
+  getPriceBreak,
+  getQuantityRule,
+  stepQuantity,
+  type NormalizedQuantityRule,
+} from '~/lib/quantity-rules';
+import {
+  getSellingPlanPrice,
+  getSellingPlanSavings,
+  isSellingPlanAvailable,
+} from '~/lib/selling-plans';
+
+/**
+ * Option picker, add to cart and Shop Pay buttons for a product. Options are
+ * links that update the URL by default; pass `onSelectOption` to pick them in
+ * place instead, e.g. inside the quick view. `lineAttributeFields` adds text
+ * inputs whose values are saved as attributes of the cart line, and
+ * `sellingPlanGroups` a choice between a one-time purchase and subscriptions.
+ * An "only N left" hint shows when stock is at or below `lowStockThreshold`.
+ */
+export function ProductForm({
+  productOptions,
+  selectedVariant,
+  storeDomain,
+  onSelectOption,
+  lineAttributeFields = [],
+  sellingPlanGroups = [],
+  requiresSellingPlan = false,
+  lowStockThreshold = LOW_STOCK_THRESHOLD,
+}: {
+  productOptions: MappedProductOptions[];
+  selectedVariant?: ProductVariantFragment | null;
+  storeDomain: string;
+  onSelectOption?: (handle: string, variantUriQuery: string) => void;
+  lineAttributeFields?: LineAttributeField[];
+  sellingPlanGroups?: SellingPlanGroupFragment[];
+  requiresSellingPlan?: boolean;
+  lowStockThreshold?: number;
+}) {
+  const [lineAttributes, setLineAttributes] = useState<Record<string, string>>(
+    {},
+  );
+  const attributes = lineAttributeFields
+    .map(({key}) => ({key, value: lineAttributes[key]?.trim() ?? ''}))
+    .filter(({value}) => value);
+
+  const [chosenSellingPlanId, setSellingPlanId] = useState<string | null>(null);
+  // The chosen plan may not be offered for every variant
+  const availableSellingPlans = selectedVariant
+    ? sellingPlanGroups
+        .flatMap(({sellingPlans}) => sellingPlans.nodes)
+        .filter(({id}) => isSellingPlanAvailable(selectedVariant, id))
+    : [];
+  const sellingPlanId =
+    availableSellingPlans.find(({id}) => id === chosenSellingPlanId)?.id ??
+    (requiresSellingPlan ? availableSellingPlans[0]?.id ?? null : null);
+
+  const isOutOfStock =
+    !selectedVariant?.availableForSale ||
+    (requiresSellingPlan && !sellingPlanId);
+
+  // Variants that don't track inventory, or that can be oversold, report 0
+  const quantityAvailable = selectedVariant?.quantityAvailable ?? 0;
+  const isLowStock =
+    !isOutOfStock &&
+    quantityAvailable > 0 &&
+    quantityAvailable <= lowStockThreshold;
+
+  const quantityRule = getQuantityRule(selectedVariant);
+  const [chosenQuantities, setQuantities] = useState<Record<string, number>>(
+    {},
+  );
+  const quantity =
+    (selectedVariant && chosenQuantities[selectedVariant.id]) ||
+    quantityRule.minimum;
+
+  // Volume pricing doesn't combine with selling plans
+  const priceBreaks = sellingPlanId
+    ? []
+    : selectedVariant?.quantityPriceBreaks.nodes ?? [];
+  const priceBreak = getPriceBreak(priceBreaks, quantity);
+
+  const price = selectedVariant
+    ? priceBreak?.price ?? getSellingPlanPrice(selectedVariant, sellingPlanId)
+    : null;
+  const compareAtPrice =
+    sellingPlanId || priceBreak
+      ? selectedVariant?.price
+      : selectedVariant?.compareAtPrice;
+
+  const isOnSale =
+    price?.amount &&
+    compareAtPrice?.amount &&
+    Number(price.amount) < Number(compareAtPrice.amount);
+
+  return (
+    <div className="space-y-8">
+      {/* Variant Options */}
+      <div className="space-y-6">
+        {productOptions.map((option) => (
+          <div key={option.name} className="space-y-3">
+            <label className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
+              {option.name}
+              {option.optionValues.find((v) => v.selected) && (
+                <span className="text-neutral-900 ml-2">
+                  — {option.optionValues.find((v) => v.selected)?.name}
+                </span>
+              )}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {option.optionValues.map(
+                ({
+                  isDifferentProduct,
+                  name,
+                  variantUriQuery,
+                  handle,
+                  selected,
+                  available,
+                  swatch,
+                }) => {
+                  const className = clsx(
+                    'min-w-[3rem] px-4 py-3 text-sm tracking-wider uppercase border transition-all duration-300',
+                    selected
+                      ? 'bg-neutral-900 text-white border-neutral-900'
+                      : 'bg-transparent text-neutral-700 border-neutral-300 hover:border-violet-600 hover:text-violet-600',
+                    !available && 'opacity-30 cursor-not-allowed relative',
+                  );
+                  const content = (
+                    <>
+                      {swatch ? (
+                        <ProductOptionSwatch swatch={swatch} name={name} />
+                      ) : (
+                        name
+                      )}
+                      {!available && (
+                        <span className="absolute inset-0 flex items-center justify-center">
+                          <span className="w-full h-px bg-neutral-400 rotate-[-20deg]" />
+                        </span>
+                      )}
+                    </>
+                  );
+
+                  if (onSelectOption) {
+                    return (
+                      <button
+                        key={option.name + name}
+                        type="button"
+                        aria-pressed={selected}
+                        onClick={() => onSelectOption(handle, variantUriQuery)}
+                        className={className}
+                      >
+                        {content}
+                      </button>
+                    );
+                  }
+
+                  return (
+                    <Link
+                      key={option.name + name}
+                      {...(!isDifferentProduct ? {rel: 'nofollow'} : {})}
+                      to={`/products/${handle}?${variantUriQuery}`}
+                      preventScrollReset
+                      prefetch="intent"
+                      replace
+                      className={className}
+                    >
+                      {content}
+                    </Link>
+                  );
+                },
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Line item attributes, e.g. engraving */}
+      {lineAttributeFields.length > 0 && (
+        <div className="space-y-6">
+          {lineAttributeFields.map(({key, label, maxLength}) => (
+            <div key={key} className="space-y-3">
+              <label
+                htmlFor={`line-attribute-${key}`}
+                className="text-xs tracking-[0.2em] uppercase text-neutral-500 block"
+              >
+                {label} <span className="normal-case">(optional)</span>
+              </label>
+              <input
+                id={`line-attribute-${key}`}
+                type="text"
+                maxLength={maxLength}
+                value={lineAttributes[key] ?? ''}
+                onChange={(event) =>
+                  setLineAttributes((current) => ({
+                    ...current,
+                    [key]: event.target.value,
+                  }))
+                }
+                className="w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none transition-colors"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Purchase options, e.g. subscribe and save */}
+      {selectedVariant && availableSellingPlans.length > 0 && (
+        <SellingPlanSelector
+          variant={selectedVariant}
+          sellingPlanGroups={sellingPlanGroups}
+          requiresSellingPlan={requiresSellingPlan}
+          sellingPlanId={sellingPlanId}
+          onChange={setSellingPlanId}
+        />
+      )}
+
+      {/* Add to Cart Section */}
+      {selectedVariant && (
+        <div className="space-y-4">
+          {isLowStock && (
+            <p
+              className="flex items-center gap-2 text-sm text-violet-600"
+              data-test="low-stock"
+            >
+              <span className="w-2 h-2 rounded-full bg-violet-500" />
+              Only {quantityAvailable} left
+            </p>
+          )}
+          {isOutOfStock ? (
+            <button
+              disabled
+              className="w-full py-4 bg-neutral-200 text-neutral-400 text-sm tracking-[0.2em] uppercase cursor-not-allowed"
+            >
+              Sold Out
+            </button>
+          ) : (
+            <QuantitySelector
+              quantity={quantity}
+              rule={quantityRule}
+              onChange={(nextQuantity) =>
+                setQuantities((current) => ({
+                  ...current,
+                  [selectedVariant.id]: nextQuantity,
+                }))
+              }
+            />
+          )}
+
+          {!isOutOfStock && priceBreaks.length > 0 && (
+            <QuantityPriceBreaks
+              price={selectedVariant.price}
+              minimum={quantityRule.minimum}
+              priceBreaks={priceBreaks}
+              activeBreak={priceBreak}
+            />
+          )}
+
+          {!isOutOfStock && (
+            <AddToCartButton
+              lines={[
+                {
+                  merchandiseId: selectedVariant.id!,
+                  quantity,
+                  ...(attributes.length ? {attributes} : {}),
+                  ...(sellingPlanId ? {sellingPlanId} : {}),
+                },
+              ]}
+              variant="primary"
+              data-test="add-to-cart"
+              className="w-full py-4 bg-white text-black text-sm tracking-[0.2em] uppercase font-medium hover:bg-brand-400 transition-all duration-500"
+            >
+              <span className="flex items-center justify-center gap-3">
+                <span>Add to Cart</span>
+                <span className="text-neutral-500">—</span>
+                <Money withoutTrailingZeros data={price!} as="span" />
+                {isOnSale && (
+                  <Money
+                    withoutTrailingZeros
+                    data={compareAtPrice!}
+                    as="span"
+                    className="opacity-50 line-through"
+                  />
+                )}
+              </span>
+            </AddToCartButton>
+          )}
+
+          {/* Shop Pay buys the chosen quantity, without the selling plan */}
+          {!isOutOfStock && !sellingPlanId && (
+            <ShopPayButton
+              width="100%"
+              variantIdsAndQuantities={[{id: selectedVariant.id, quantity}]}
+              storeDomain={storeDomain}
+            />
+          )}
+
+          {!selectedVariant.availableForSale && (
+            <BackInStockForm variantId={selectedVariant.id} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Quantity stepper that only offers quantities allowed by the variant's
+ * quantity rule
+ */
+function QuantitySelector({
+  quantity,
+  rule,
+  onChange,
+}: {
+  quantity: number;
+  rule: NormalizedQuantityRule;
+  onChange: (quantity: number) => void;
+}) {
+  const prevQuantity = stepQuantity(quantity, rule, -1);
+  const nextQuantity = stepQuantity(quantity, rule, 1);
+  const buttonClassName =
+    'w-12 h-12 flex items-center justify-center text-neutral-500 hover:text-neutral-900 transition-colors disabled:text-neutral-300 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-3">
+      <span
+        id="product-quantity"
+        className="text-xs tracking-[0.2em] uppercase text-neutral-500 block"
+      >
+        Quantity
+      </span>
+      <div className="flex items-center gap-4">
+        <div
+          role="group"
+          aria-labelledby="product-quantity"
+          className="inline-flex items-center border border-neutral-200"
+        >
+          <button
+            type="button"
+            aria-label="Decrease quantity"
+            className={buttonClassName}
+            disabled={prevQuantity === quantity}
+            onClick={() => onChange(prevQuantity)}
+          >
+            <span className="text-lg">−</span>
+          </button>
+          <output
+            aria-live="polite"
+            className="w-12 text-center text-sm text-neutral-900"
+            data-test="product-quantity"
+          >
+            {quantity}
+          </output>
+          <button
+            type="button"
+            aria-label="Increase quantity"
+            className={buttonClassName}
+            disabled={nextQuantity === quantity}
+            onClick={() => onChange(nextQuantity)}
+          >
+            <span className="text-lg">+</span>
+          </button>
+        </div>
+        {(rule.minimum > 1 || rule.increment > 1 || rule.maximum !== null) && (
+          <p className="text-xs text-neutral-500">
+            {[
+              rule.minimum > 1 && `Minimum ${rule.minimum}`,
+              rule.maximum !== null && `maximum ${rule.maximum}`,
+              rule.increment > 1 && `sold in multiples of ${rule.increment}`,
+            ]
+              .filter(Boolean)
+              .join(', ')
+              .replace(/^./, (letter) => letter.toUpperCase())}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Volume pricing tiers, highlighting the one reached by the chosen quantity
+ */
+function QuantityPriceBreaks({
+  price,
+  minimum,
+  priceBreaks,
+  activeBreak,
+}: {
+  price: MoneyV2;
+  minimum: number;
+  priceBreaks: ProductVariantFragment['quantityPriceBreaks']['nodes'];
+  activeBreak?: ProductVariantFragment['quantityPriceBreaks']['nodes'][number];
+}) {
+  const tiers = [
+    {minimumQuantity: minimum, price},
+    ...[...priceBreaks].sort((a, b) => a.minimumQuantity - b.minimumQuantity),
+  ];
+
+  return (
+    <table className="w-full text-sm" data-test="price-breaks">
+      <caption className="text-xs tracking-[0.2em] uppercase text-neutral-500 text-left mb-3">
+        Volume pricing
+      </caption>
+      <thead className="sr-only">
+        <tr>
+          <th scope="col">Quantity</th>
+          <th scope="col">Price each</th>
+        </tr>
+      </thead>
+      <tbody>
+        {tiers.map((tier) => {
+          const isActive = activeBreak
+            ? tier.minimumQuantity === activeBreak.minimumQuantity
+            : tier.price === price;
+
+          return (
+            <tr
+              key={tier.minimumQuantity}
+              className={clsx(
+                'border-b border-neutral-200',
+                isActive ? 'text-neutral-900 font-medium' : 'text-neutral-500',
+              )}
+            >
+              <td className="py-2">{tier.minimumQuantity}+</td>
+              <td className="py-2 text-right">
+                <Money withoutTrailingZeros data={tier.price} as="span" /> each
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+function SellingPlanSelector({
+  variant,
+  sellingPlanGroups,
+  requiresSellingPlan,
+  sellingPlanId,
+  onChange,
+}: {
+  variant: ProductVariantFragment;
+  sellingPlanGroups: SellingPlanGroupFragment[];
+  requiresSellingPlan: boolean;
+  sellingPlanId: string | null;
+  onChange: (sellingPlanId: string | null) => void;
+}) {
+  const optionClassName =
+    'flex items-start gap-3 p-4 border cursor-pointer transition-colors';
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-xs tracking-[0.2em] uppercase text-neutral-500 block mb-3">
+        Purchase options
+      </legend>
+      {!requiresSellingPlan && (
+        <label
+          className={clsx(
+            optionClassName,
+            !sellingPlanId
+              ? 'border-neutral-900'
+              : 'border-neutral-300 hover:border-violet-600',
+          )}
+        >
+          <input
+            type="radio"
+            name="purchase-option"
+            checked={!sellingPlanId}
+            onChange={() => onChange(null)}
+            className="mt-1 accent-neutral-900"
+          />
+          <span className="flex-1 text-sm text-neutral-900">
+            One-time purchase
+          </span>
+          <Money
+            withoutTrailingZeros
+            data={variant.price}
+            as="span"
+            className="text-sm text-neutral-900"
+          />
+        </label>
+      )}
+      {sellingPlanGroups.map((group) => {
+        const plans = group.sellingPlans.nodes.filter(({id}) =>
+          isSellingPlanAvailable(variant, id),
+        );
+        const selectedPlan = plans.find(({id}) => id === sellingPlanId) ?? null;
+        const displayedPlan = selectedPlan ?? plans[0];
+
+        if (!displayedPlan) return null;
+
+        const savings = getSellingPlanSavings(variant, displayedPlan.id);
+
+        return (
+          <div
+            key={group.name}
+            className={clsx(
+              optionClassName,
+              'flex-col',
+              selectedPlan
+                ? 'border-neutral-900'
+                : 'border-neutral-300 hover:border-violet-600',
+            )}
+          >
+            <label className="flex items-start gap-3 w-full cursor-pointer">
+              <input
+                type="radio"
+                name="purchase-option"
+                checked={Boolean(selectedPlan)}
+                onChange={() => onChange(displayedPlan.id)}
+                className="mt-1 accent-neutral-900"
+              />
+              <span className="flex-1 text-sm text-neutral-900">
+                {group.name}
+                {savings > 0 && (
+                  <span className="ml-2 text-xs tracking-wider uppercase px-2 py-1 bg-violet-100 text-violet-600">
+                    Save {savings}%
+                  </span>
+                )}
+              </span>
+              <Money
+                withoutTrailingZeros
+                data={getSellingPlanPrice(variant, displayedPlan.id)}
+                as="span"
+                className="text-sm text-neutral-900"
+              />
+            </label>
+            {selectedPlan && plans.length > 1 && (
+              <select
+                aria-label={`${group.name} frequency`}
+                value={selectedPlan.id}
+                onChange={(event) => onChange(event.target.value)}
+                className="w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none"
+              >
+                {plans.map((plan) => (
+                  <option key={plan.id} value={plan.id}>
+                    {plan.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {selectedPlan?.description && (
+              <p className="text-xs text-neutral-500">
+                {selectedPlan.description}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </fieldset>
+  );
+}
+
+function ProductOptionSwatch({
+  swatch,
+  name,
+}: {
+  swatch?: Maybe<ProductOptionValueSwatch> | undefined;
+  name: string;
+}) {
+  const image = swatch?.image?.previewImage?.url;
+  const color = swatch?.color;
+
+  if (!image && !color) return <>{name}</>;
+
+  return (
+    <div
+      aria-label={name}
+      className="w-6 h-6 rounded-full border border-neutral-600"
+      style={{
+        backgroundColor: color || 'transparent',
+      }}
+    >
+      {!!image && (
+        <img
+          src={image}
+          alt={name}
+          className="w-full h-full object-cover rounded-full"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,59 +1,531 @@
-import {Image} from '@shopify/hydrogen';
+import {useEffect, useRef, useState} from 'react';
+import {Image, MediaFile} from '@shopify/hydrogen';
+import clsx from 'clsx';
 
 import type {MediaFragment} from 'storefrontapi.generated';
+import {IconClose} from '~/components/Icon';
+
+const SWIPE_THRESHOLD = 50;
+const HOVER_ZOOM = 2;
+const MAX_PINCH_ZOOM = 4;
 
 /**
- * A client component that defines a media gallery for hosting images, 3D models, and videos of products
+ * A client component that defines a media gallery for hosting images, 3D models, and videos of products.
+ * Images zoom on hover, and on pinch or double tap in the fullscreen
+ * lightbox. Media can be browsed with the arrows, the thumbnails, the
+ * arrow keys once a gallery button has focus, or by swiping.
+ *
+ * The gallery jumps to `selectedMediaId` whenever it changes, e.g. to the
+ * image of a newly selected variant. `optionMedia` are shortcuts to media of
+ * other option values, which call `onSelectOptionMedia` to select them.
  */
 export function ProductGallery({
   media,
+  title,
+  selectedMediaId,
+  optionMedia = [],
+  onSelectOptionMedia,
   className,
 }: {
   media: MediaFragment[];
+  title: string;
+  selectedMediaId?: string;
+  optionMedia?: Array<{medium: MediaFragment; label: string}>;
+  onSelectOptionMedia?: (medium: MediaFragment) => void;
   className?: string;
 }) {
-  if (!media.length) {
+  const [index, setIndex] = useState(0);
+  const [isLightboxOpen, setLightboxOpen] = useState(false);
+
+  const [jumpedToMediaId, setJumpedToMediaId] = useState(selectedMediaId);
+  if (selectedMediaId !== jumpedToMediaId) {
+    setJumpedToMediaId(selectedMediaId);
+    const selectedIndex = media.findIndex(({id}) => id === selectedMediaId);
+    if (selectedIndex !== -1) setIndex(selectedIndex);
+  }
+
+  const count = media.length;
+  // The media can change with the selected variant
+  const currentIndex = Math.min(index, Math.max(count - 1, 0));
+  const current = media[currentIndex];
+
+  const showPrevious = () => setIndex((currentIndex - 1 + count) % count);
+  const showNext = () => setIndex((currentIndex + 1) % count);
+  const swipeHandlers = useSwipe((direction) =>
+    direction === 1 ? showNext() : showPrevious(),
+  );
+  // The arrow keys browse the media from any of the gallery's buttons
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowLeft') showPrevious();
+    if (event.key === 'ArrowRight') showNext();
+  };
+
+  if (!current) {
     return null;
   }
 
+  return (
+    <section
+      aria-roledescription="carousel"
+      aria-label={`${title} media`}
+      className={clsx('space-y-4', className)}
+    >
+      <div
+        aria-roledescription="slide"
+        aria-label={`${currentIndex + 1} of ${count}`}
+        className="aspect-[3/4] bg-neutral-100 overflow-hidden relative group touch-pan-y focus:outline-none focus-visible:ring-2 focus-visible:ring-violet-500"
+        // 3D models are rotated by dragging, so they can't be swiped
+        {...(current.__typename === 'Model3d' ? {} : swipeHandlers)}
+      >
+        <MediaStage medium={current} title={title} zoom="hover" />
+
+        {current.__typename === 'MediaImage' && (
+          <button
+            type="button"
+            onClick={() => setLightboxOpen(true)}
+            onKeyDown={onKeyDown}
+            className="absolute right-4 bottom-4 px-3 py-2 bg-black/10 backdrop-blur-sm text-xs tracking-[0.15em] uppercase text-neutral-900 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/20"
+          >
+            Fullscreen
+          </button>
+        )}
+
+        {count > 1 && (
+          <GalleryArrows
+            onPrevious={showPrevious}
+            onNext={showNext}
+            onKeyDown={onKeyDown}
+          />
+        )}
+      </div>
+
+      {/* Thumbnails */}
+      {count + optionMedia.length > 1 && (
+        <div className="grid grid-cols-4 gap-2">
+          {media.map((medium, i) => (
+            <button
+              key={medium.id}
+              type="button"
+              onClick={() => setIndex(i)}
+              onKeyDown={onKeyDown}
+              aria-label={`Show media ${i + 1} of ${count}`}
+              aria-current={i === currentIndex}
+              className={clsx(
+                'aspect-square bg-neutral-100 overflow-hidden transition-all duration-300 relative',
+                i === currentIndex
+                  ? 'ring-2 ring-violet-500'
+                  : 'ring-1 ring-transparent hover:ring-neutral-300',
+              )}
+            >
+              {medium.previewImage && (
+                <Image
+                  data={medium.previewImage}
+                  alt=""
+                  className="w-full h-full object-cover"
+                  sizes="100px"
+                />
+              )}
+              <MediaBadge medium={medium} />
+            </button>
+          ))}
+          {optionMedia.map(({medium, label}) => (
+            <button
+              key={medium.id}
+              type="button"
+              onClick={() => onSelectOptionMedia?.(medium)}
+              aria-label={`Select ${label}`}
+              className="aspect-square bg-neutral-100 overflow-hidden transition-all duration-300 relative ring-1 ring-transparent hover:ring-neutral-300"
+            >
+              {medium.previewImage && (
+                <Image
+                  data={medium.previewImage}
+                  alt=""
+                  className="w-full h-full object-cover opacity-70"
+                  sizes="100px"
+                />
+              )}
+              <span className="absolute inset-x-0 bottom-0 px-1.5 py-0.5 bg-white/80 text-[10px] tracking-wider uppercase text-neutral-900 truncate">
+                {label}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLightboxOpen && (
+        <GalleryLightbox
+          media={media}
+          index={currentIndex}
+          title={title}
+          onChange={setIndex}
+          onClose={() => setLightboxOpen(false)}
+        />
+      )}
+    </section>
+  );
+}
+
+/**
+ * Fullscreen view of the gallery, closed with Escape
+ */
+function GalleryLightbox({
+  media,
+  index,
+  title,
+  onChange,
+  onClose,
+}: {
+  media: MediaFragment[];
+  index: number;
+  title: string;
+  onChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const count = media.length;
+  const current = media[index];
+
+  const showPrevious = () => onChange((index - 1 + count) % count);
+  const showNext = () => onChange((index + 1) % count);
+  const swipeHandlers = useSwipe((direction) =>
+    direction === 1 ? showNext() : showPrevious(),
+  );
+
+  // Latest handlers for the window listener registered once
+  const handlersRef = useRef({showPrevious, showNext, onClose});
+  handlersRef.current = {showPrevious, showNext, onClose};
+
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const {overflow} = document.body.style;
+    document.body.style.overflow = 'hidden';
+    closeButtonRef.current?.focus();
+
+    function onKeyDown(event: KeyboardEvent) {
+      if (event.key === 'Escape') handlersRef.current.onClose();
+      if (event.key === 'ArrowLeft') handlersRef.current.showPrevious();
+      if (event.key === 'ArrowRight') handlersRef.current.showNext();
+    }
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.body.style.overflow = overflow;
+      previousFocus?.focus();
+    };
+  }, []);
+
   return (
     <div
-      className={`swimlane md:grid-flow-row hiddenScroll md:p-0 md:overflow-x-auto md:grid-cols-2 ${className}`}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${title} media, ${index + 1} of ${count}`}
+      className="fixed inset-0 z-50 bg-white flex items-center justify-center"
     >
-      {media.map((med, i) => {
-        const isFirst = i === 0;
-        const isFourth = i === 3;
-        const isFullWidth = i % 3 === 0;
-
-        const image =
-          med.__typename === 'MediaImage'
-            ? {...med.image, altText: med.alt || 'Product image'}
-            : null;
-
-        const style = [
-          isFullWidth ? 'md:col-span-2' : 'md:col-span-1',
-          isFirst || isFourth ? '' : 'md:aspect-[4/5]',
-          'aspect-square snap-center card-image bg-white dark:bg-contrast/10 w-mobileGallery md:w-full',
-        ].join(' ');
-
-        return (
-          <div className={style} key={med.id || image?.id}>
-            {image && (
-              <Image
-                loading={i === 0 ? 'eager' : 'lazy'}
-                data={image}
-                aspectRatio={!isFirst && !isFourth ? '4/5' : undefined}
-                sizes={
-                  isFirst || isFourth
-                    ? '(min-width: 48em) 60vw, 90vw'
-                    : '(min-width: 48em) 30vw, 90vw'
-                }
-                className="object-cover w-full h-full aspect-square fadeIn"
-              />
-            )}
-          </div>
-        );
-      })}
+      <div
+        className="relative w-full h-full"
+        {...(current.__typename === 'Model3d' ? {} : swipeHandlers)}
+      >
+        {/* Remount per medium, so the zoom starts over */}
+        <MediaStage
+          key={current.id}
+          medium={current}
+          title={title}
+          zoom="pinch"
+        />
+      </div>
+      <button
+        ref={closeButtonRef}
+        type="button"
+        onClick={onClose}
+        aria-label="Close fullscreen"
+        className="absolute top-4 right-4 w-10 h-10 flex items-center justify-center bg-black/10 backdrop-blur-sm text-neutral-900 hover:bg-black/20 transition-colors"
+      >
+        <IconClose />
+      </button>
+      {count > 1 && (
+        <>
+          <GalleryArrows
+            onPrevious={showPrevious}
+            onNext={showNext}
+            className="opacity-100"
+          />
+          <p className="absolute bottom-4 left-1/2 -translate-x-1/2 text-sm text-neutral-500">
+            {index + 1} / {count}
+          </p>
+        </>
+      )}
     </div>
   );
 }
+
+/**
+ * Renders a medium by type: images with zoom, native videos, YouTube or
+ * Vimeo embeds and 3D models with `model-viewer`
+ */
+function MediaStage({
+  medium,
+  title,
+  zoom,
+}: {
+  medium: MediaFragment;
+  title: string;
+  zoom: 'hover' | 'pinch';
+}) {
+  if (medium.__typename === 'MediaImage' && medium.image) {
+    const image = {...medium.image, altText: medium.alt || title};
+
+    return zoom === 'hover' ? (
+      <HoverZoomImage image={image} />
+    ) : (
+      <PinchZoomImage image={image} />
+    );
+  }
+
+  return (
+    <MediaFile
+      data={medium}
+      className="w-full h-full object-contain"
+      mediaOptions={{
+        video: {controls: true, playsInline: true, preload: 'metadata'},
+        externalVideo: {rel: 0},
+      }}
+    />
+  );
+}
+
+type GalleryImage = NonNullable<
+  Extract<MediaFragment, {__typename: 'MediaImage'}>['image']
+> & {altText: string};
+
+function HoverZoomImage({image}: {image: GalleryImage}) {
+  const [origin, setOrigin] = useState<string | null>(null);
+
+  return (
+    <div
+      className="w-full h-full cursor-zoom-in"
+      onMouseMove={(event) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const x = ((event.clientX - rect.left) / rect.width) * 100;
+        const y = ((event.clientY - rect.top) / rect.height) * 100;
+        setOrigin(`${x}% ${y}%`);
+      }}
+      onMouseLeave={() => setOrigin(null)}
+    >
+      <Image
+        data={image}
+        className="w-full h-full object-cover transition-transform duration-300"
+        style={
+          origin
+            ? {transform: `scale(${HOVER_ZOOM})`, transformOrigin: origin}
+            : undefined
+        }
+        sizes="(min-width: 1024px) 50vw, 100vw"
+      />
+    </div>
+  );
+}
+
+/**
+ * Image zoomed by pinching or double tapping, and panned by dragging
+ * once zoomed
+ */
+function PinchZoomImage({image}: {image: GalleryImage}) {
+  const [transform, setTransform] = useState({scale: 1, x: 0, y: 0});
+  const pointers = useRef(new Map<number, {x: number; y: number}>());
+  const pinchStart = useRef<{distance: number; scale: number} | null>(null);
+
+  const getDistance = () => {
+    const [a, b] = Array.from(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  return (
+    <div
+      className={clsx(
+        'w-full h-full overflow-hidden touch-none select-none',
+        transform.scale > 1 ? 'cursor-grab' : 'cursor-zoom-in',
+      )}
+      onDoubleClick={() =>
+        setTransform((current) =>
+          current.scale > 1 ? {scale: 1, x: 0, y: 0} : {...current, scale: 2},
+        )
+      }
+      onPointerDown={(event) => {
+        pointers.current.set(event.pointerId, {
+          x: event.clientX,
+          y: event.clientY,
+        });
+        if (pointers.current.size === 2) {
+          pinchStart.current = {
+            distance: getDistance(),
+            scale: transform.scale,
+          };
+        }
+      }}
+      onPointerMove={(event) => {
+        const previous = pointers.current.get(event.pointerId);
+        if (!previous) return;
+        pointers.current.set(event.pointerId, {
+          x: event.clientX,
+          y: event.clientY,
+        });
+
+        if (pointers.current.size === 2 && pinchStart.current) {
+          const {distance, scale} = pinchStart.current;
+          const nextScale = Math.min(
+            MAX_PINCH_ZOOM,
+            Math.max(1, (scale * getDistance()) / distance),
+          );
+          setTransform((current) =>
+            nextScale === 1
+              ? {scale: 1, x: 0, y: 0}
+              : {...current, scale: nextScale},
+          );
+        } else if (transform.scale > 1) {
+          // Keep the pointer from swiping to another medium while panning
+          event.stopPropagation();
+          setTransform((current) => ({
+            ...current,
+            x: current.x + event.clientX - previous.x,
+            y: current.y + event.clientY - previous.y,
+          }));
+        }
+      }}
+      onPointerUp={(event) => {
+        pointers.current.delete(event.pointerId);
+        if (pointers.current.size < 2) pinchStart.current = null;
+        if (transform.scale > 1) event.stopPropagation();
+      }}
+      onPointerCancel={(event) => {
+        pointers.current.delete(event.pointerId);
+        pinchStart.current = null;
+      }}
+    >
+      <Image
+        data={image}
+        className="w-full h-full object-contain"
+        style={{
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+        }}
+        sizes="100vw"
+      />
+    </div>
+  );
+}
+
+function GalleryArrows({
+  onPrevious,
+  onNext,
+  onKeyDown,
+  className,
+}: {
+  onPrevious: () => void;
+  onNext: () => void;
+  onKeyDown?: React.KeyboardEventHandler;
+  className?: string;
+}) {
+  const arrowClassName = clsx(
+    'absolute top-1/2 -translate-y-1/2 w-10 h-10 bg-black/10 backdrop-blur-sm flex items-center justify-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-black/20 text-neutral-900',
+    className,
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={onPrevious}
+        onKeyDown={onKeyDown}
+        className={clsx(arrowClassName, 'left-4')}
+        aria-label="Previous media"
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M15.75 19.5L8.25 12l7.5-7.5"
+          />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={onNext}
+        onKeyDown={onKeyDown}
+        className={clsx(arrowClassName, 'right-4')}
+        aria-label="Next media"
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M8.25 4.5l7.5 7.5-7.5 7.5"
+          />
+        </svg>
+      </button>
+    </>
+  );
+}
+
+/**
+ * Marks video and 3D thumbnails, which otherwise look like images
+ */
+function MediaBadge({medium}: {medium: MediaFragment}) {
+  const label =
+    medium.__typename === 'Model3d'
+      ? '3D'
+      : medium.__typename === 'Video' || medium.__typename === 'ExternalVideo'
+      ? 'Video'
+      : null;
+
+  if (!label) return null;
+
+  return (
+    <span className="absolute bottom-1 right-1 px-1.5 py-0.5 bg-neutral-900/80 text-[10px] tracking-wider uppercase text-white">
+      {label}
+    </span>
+  );
+}
+
+/**
+ * Pointer handlers calling `onSwipe` with 1 for a swipe to the left, i.e.
+ * to the next medium, and -1 for a swipe to the right. Mouse drags are
+ * ignored so they don't fight with the hover zoom.
+ */
+function useSwipe(onSwipe: (direction: 1 | -1) => void) {
+  const start = useRef<{x: number; y: number} | null>(null);
+
+  return {
+    onPointerDown(event: React.PointerEvent) {
+      if (!event.isPrimary) return;
+      start.current =
+        event.pointerType === 'mouse'
+          ? null
+          : {x: event.clientX, y: event.clientY};
+    },
+    onPointerUp(event: React.PointerEvent) {
+      if (!event.isPrimary || !start.current) return;
+      const dx = event.clientX - start.current.x;
+      const dy = event.clientY - start.current.y;
+      start.current = null;
+
+      if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+        onSwipe(dx < 0 ? 1 : -1);
+      }
+    },
+    onPointerCancel() {
+      start.current = null;
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import {useState} from 'react';
+import {useFetcher} from '@remix-run/react';
+
+import {Link} from '~/components/Link';
+import {MAX_QUESTION_LENGTH, type ProductQuestion} from '~/lib/questions';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * Answered questions about a product, with the form to ask one. New questions
+ * only show once staff approve and answer them.
+ */
+export function ProductQuestions({
+  productId,
+  questions,
+}: {
+  productId: string;
+  questions: ProductQuestion[];
+}) {
+  return (
+    <section
+      id="questions"
+      aria-labelledby="questions-heading"
+      className="border-t border-neutral-200 py-24 px-6"
+      data-test="product-questions"
+    >
+      <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-12 lg:gap-20">
+        <div className="space-y-6">
+          <h2
+            id="questions-heading"
+            className="font-display text-3xl md:text-4xl text-neutral-900"
+          >
+            Questions & Answers
+          </h2>
+          {!questions.length && (
+            <p className="text-sm text-neutral-500">
+              No questions yet. Ask the first one.
+            </p>
+          )}
+          <QuestionForm productId={productId} />
+        </div>
+
+        {questions.length > 0 && (
+          <dl className="lg:col-span-2 divide-y divide-neutral-200">
+            {questions.map((question) => (
+              <div key={question.id} className="py-6 first:pt-0 space-y-2">
+                <dt className="text-sm font-medium text-neutral-900">
+                  Q: {question.question}
+                </dt>
+                <dd className="space-y-2">
+                  <p className="text-sm text-neutral-600 whitespace-pre-line">
+                    A: {question.answer}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    Asked by {question.author} ·{' '}
+                    <time dateTime={question.createdAt}>
+                      {new Date(question.createdAt).toLocaleDateString()}
+                    </time>
+                  </p>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function QuestionForm({productId}: {productId: string}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fetcher = useFetcher<{
+    isQueued?: boolean;
+    error?: string;
+    requiresLogin?: boolean;
+  }>({key: `question-${productId}`});
+  const action = usePrefixPathWithLocale('/api/questions');
+
+  const isSubmitting = fetcher.state !== 'idle';
+
+  if (fetcher.state === 'idle' && fetcher.data?.isQueued) {
+    return (
+      <p role="status" className="text-sm text-neutral-700">
+        Thanks! Your question will show here once we’ve answered it.
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="px-6 py-3 border border-neutral-900 text-sm tracking-[0.15em] uppercase font-medium text-neutral-900 hover:border-violet-600 hover:text-violet-600 transition-colors"
+      >
+        Ask a question
+      </button>
+    );
+  }
+
+  const inputClassName =
+    'w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none transition-colors';
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={action}
+      className="space-y-4"
+      data-test="question-form"
+    >
+      <input type="hidden" name="productId" value={productId} />
+      <label className="block space-y-2">
+        <span className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
+          Question
+        </span>
+        <textarea
+          name="question"
+          required
+          rows={3}
+          maxLength={MAX_QUESTION_LENGTH}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block space-y-2">
+        <span className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
+          Name (optional)
+        </span>
+        <input
+          name="name"
+          maxLength={50}
+          autoComplete="given-name"
+          className={inputClassName}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-3 bg-neutral-900 text-white text-sm tracking-[0.15em] uppercase font-medium hover:bg-violet-600 transition-colors disabled:opacity-50"
+      >
+        Submit question
+      </button>
+      {fetcher.state === 'idle' && fetcher.data?.error && (
+        <p role="alert" className="text-sm text-red-600">
+          {fetcher.data.error}
+          {fetcher.data.requiresLogin && (
+            <>
+              {' '}
+              <Link to="/account/login" className="underline">
+                Log in
+              </Link>
+            </>
+          )}
+        </p>
+      )}
+    </fetcher.Form>
+  );
+}
@@ -0,0 +1,267 @@
+import {useState} from 'react';
+import clsx from 'clsx';
+import {useFetcher, useSearchParams} from '@remix-run/react';
+
+import {Link} from '~/components/Link';
+import {StarRating} from '~/components/StarRating';
+import {
+  MAX_RATING,
+  REVIEWS_PAGE_PARAM,
+  type ProductReview,
+  type ReviewSummary,
+} from '~/lib/reviews';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * Published reviews of a product, a page at a time, with the form to write
+ * one. The page is kept in the `?reviews=` search param so it can be shared.
+ */
+export function ProductReviews({
+  productId,
+  reviews,
+  summary,
+  page,
+  pageCount,
+}: {
+  productId: string;
+  reviews: ProductReview[];
+  summary: ReviewSummary | null;
+  page: number;
+  pageCount: number;
+}) {
+  return (
+    <section
+      id="reviews"
+      aria-labelledby="reviews-heading"
+      className="border-t border-neutral-200 py-24 px-6"
+      data-test="product-reviews"
+    >
+      <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-12 lg:gap-20">
+        <div className="space-y-6">
+          <h2
+            id="reviews-heading"
+            className="font-display text-3xl md:text-4xl text-neutral-900"
+          >
+            Reviews
+          </h2>
+          {summary ? (
+            <div className="space-y-2">
+              <p className="text-4xl font-medium text-neutral-900">
+                {summary.rating.toFixed(1)}
+              </p>
+              <StarRating rating={summary.rating} count={summary.count} />
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500">No reviews yet.</p>
+          )}
+          <ReviewForm productId={productId} />
+        </div>
+
+        <div className="lg:col-span-2 space-y-8">
+          {reviews.length > 0 && (
+            <ul className="divide-y divide-neutral-200">
+              {reviews.map((review) => (
+                <li key={review.id} className="py-6 first:pt-0 space-y-2">
+                  <StarRating rating={review.rating} />
+                  {review.title && (
+                    <h3 className="text-sm font-medium text-neutral-900">
+                      {review.title}
+                    </h3>
+                  )}
+                  <p className="text-sm text-neutral-600 whitespace-pre-line">
+                    {review.body}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {review.author}
+                    {review.createdAt && (
+                      <>
+                        {' · '}
+                        <time dateTime={review.createdAt}>
+                          {new Date(review.createdAt).toLocaleDateString()}
+                        </time>
+                      </>
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {pageCount > 1 && (
+            <ReviewPagination page={page} pageCount={pageCount} />
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function ReviewPagination({
+  page,
+  pageCount,
+}: {
+  page: number;
+  pageCount: number;
+}) {
+  const [searchParams] = useSearchParams();
+
+  const getPageSearch = (toPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set(REVIEWS_PAGE_PARAM, String(toPage));
+    return `?${params}`;
+  };
+
+  return (
+    <nav
+      aria-label="Review pages"
+      className="flex items-center justify-between"
+    >
+      <PageLink
+        search={getPageSearch(page - 1)}
+        disabled={page <= 1}
+        label="Newer reviews"
+      />
+      <span className="text-xs text-neutral-500">
+        Page {page} of {pageCount}
+      </span>
+      <PageLink
+        search={getPageSearch(page + 1)}
+        disabled={page >= pageCount}
+        label="Older reviews"
+      />
+    </nav>
+  );
+}
+
+function PageLink({
+  search,
+  disabled,
+  label,
+}: {
+  search: string;
+  disabled: boolean;
+  label: string;
+}) {
+  const className =
+    'text-xs tracking-[0.15em] uppercase text-neutral-900 hover:text-violet-600 transition-colors';
+
+  if (disabled) {
+    return <span className={clsx(className, 'opacity-30')}>{label}</span>;
+  }
+
+  return (
+    <Link to={{search}} preventScrollReset className={className}>
+      {label}
+    </Link>
+  );
+}
+
+function ReviewForm({productId}: {productId: string}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fetcher = useFetcher<{
+    review?: ProductReview;
+    error?: string;
+    requiresLogin?: boolean;
+  }>({key: `review-${productId}`});
+  const action = usePrefixPathWithLocale('/api/reviews');
+
+  const isSubmitting = fetcher.state !== 'idle';
+  const savedReview = fetcher.state === 'idle' && fetcher.data?.review;
+
+  if (savedReview) {
+    return (
+      <p role="status" className="text-sm text-neutral-700">
+        {savedReview.status === 'published'
+          ? 'Thanks for your review!'
+          : 'Thanks! Your review will show once it’s approved.'}
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="px-6 py-3 border border-neutral-900 text-sm tracking-[0.15em] uppercase font-medium text-neutral-900 hover:border-violet-600 hover:text-violet-600 transition-colors"
+      >
+        Write a review
+      </button>
+    );
+  }
+
+  const inputClassName =
+    'w-full bg-neutral-100 border border-neutral-200 px-4 py-3 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none transition-colors';
+
+  return (
+    <fetcher.Form
+      method="post"
+      action={action}
+      className="space-y-4"
+      data-test="review-form"
+    >
+      <input type="hidden" name="productId" value={productId} />
+      <fieldset className="space-y-2">
+        <legend className="text-xs tracking-[0.2em] uppercase text-neutral-500">
+          Rating
+        </legend>
+        <div className="flex gap-4">
+          {Array.from({length: MAX_RATING}, (_, index) => index + 1).map(
+            (rating) => (
+              <label
+                key={rating}
+                className="flex items-center gap-1 text-sm text-neutral-900"
+              >
+                <input
+                  type="radio"
+                  name="rating"
+                  value={rating}
+                  required
+                  className="accent-violet-600"
+                />
+                {rating}
+              </label>
+            ),
+          )}
+        </div>
+      </fieldset>
+      <label className="block space-y-2">
+        <span className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
+          Title
+        </span>
+        <input name="title" maxLength={100} className={inputClassName} />
+      </label>
+      <label className="block space-y-2">
+        <span className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
+          Review
+        </span>
+        <textarea
+          name="body"
+          required
+          rows={4}
+          maxLength={2000}
+          className={inputClassName}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-3 bg-neutral-900 text-white text-sm tracking-[0.15em] uppercase font-medium hover:bg-violet-600 transition-colors disabled:opacity-50"
+      >
+        Submit review
+      </button>
+      {fetcher.state === 'idle' && fetcher.data?.error && (
+        <p role="alert" className="text-sm text-red-600">
+          {fetcher.data.error}
+          {fetcher.data.requiresLogin && (
+            <>
+              {' '}
+              <Link to="/account/login" className="underline">
+                Log in
+              </Link>
+            </>
+          )}
+        </p>
+      )}
+    </fetcher.Form>
+  );
+}
@@ -0,0 +1,287 @@
+import {useState} from 'react';
+import {useLocation} from '@remix-run/react';
+import clsx from 'clsx';
+
+import {Modal} from '~/components/Modal';
+import {
+  convertMeasurement,
+  findSize,
+  formatMeasurement,
+  formatMeasurementRange,
+  type ProductSpec,
+  type SizeGuide as SizeGuideData,
+} from '~/lib/product-specs';
+import type {MeasurementSystem} from '~/lib/type';
+
+/**
+ * Spec rows of a product, with measurements in the shopper's units
+ */
+export function SpecTable({
+  specs,
+  measurementSystem,
+}: {
+  specs: ProductSpec[];
+  measurementSystem: MeasurementSystem;
+}) {
+  return (
+    <dl className="divide-y divide-neutral-200 text-sm" data-test="spec-table">
+      {specs.map(({label, value, unit}) => (
+        <div key={label} className="flex justify-between gap-4 py-2">
+          <dt className="text-neutral-500">{label}</dt>
+          <dd className="text-neutral-900 text-right">
+            {unit && typeof value === 'number'
+              ? formatMeasurement(value, unit, measurementSystem)
+              : value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Opens the size guide in a modal, with the sizes in a table and a helper
+ * suggesting a size from the rider's height and weight
+ */
+export function SizeGuide({
+  sizeGuide,
+  measurementSystem,
+  onSelectSize,
+}: {
+  sizeGuide: SizeGuideData;
+  measurementSystem: MeasurementSystem;
+  /** Selects the size's option value, when the guide names the option */
+  onSelectSize?: (size: string) => void;
+}) {
+  const {pathname, search} = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [system, setSystem] = useState(measurementSystem);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="text-sm text-violet-600 hover:text-violet-500 transition-colors underline underline-offset-4"
+        data-test="size-guide-open"
+      >
+        Open the {sizeGuide.title.toLowerCase()}
+      </button>
+      {isOpen && (
+        <Modal
+          cancelLink={`${pathname}${search}`}
+          onCancel={(event) => {
+            event.preventDefault();
+            setIsOpen(false);
+          }}
+        >
+          <div className="space-y-6" data-test="size-guide">
+            <div className="flex items-center justify-between gap-4 pr-8">
+              <h2 id="modal-title" className="text-lg font-medium">
+                {sizeGuide.title}
+              </h2>
+              <UnitToggle system={system} onChange={setSystem} />
+            </div>
+            <SizeTable sizes={sizeGuide.sizes} system={system} />
+            {/* Entered measurements are cleared when the units change */}
+            <FindMySize
+              key={system}
+              sizeGuide={sizeGuide}
+              system={system}
+              onSelectSize={
+                onSelectSize &&
+                ((size) => {
+                  onSelectSize(size);
+                  setIsOpen(false);
+                })
+              }
+            />
+          </div>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+function UnitToggle({
+  system,
+  onChange,
+}: {
+  system: MeasurementSystem;
+  onChange: (system: MeasurementSystem) => void;
+}) {
+  return (
+    <div role="group" aria-label="Units" className="flex text-xs">
+      {(
+        [
+          ['metric', 'cm / kg'],
+          ['imperial', 'in / lb'],
+        ] as const
+      ).map(([value, label]) => (
+        <button
+          key={value}
+          type="button"
+          aria-pressed={system === value}
+          onClick={() => onChange(value)}
+          className={clsx(
+            'px-2 py-1 border transition-colors',
+            system === value
+              ? 'border-neutral-900 bg-neutral-900 text-white'
+              : 'border-neutral-200 text-neutral-500 hover:text-neutral-900',
+          )}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function SizeTable({
+  sizes,
+  system,
+}: {
+  sizes: SizeGuideData['sizes'];
+  system: MeasurementSystem;
+}) {
+  const hasLength = sizes.some(({length}) => length);
+  const hasHeight = sizes.some(({height}) => height);
+  const hasWeight = sizes.some(({weight}) => weight);
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs uppercase tracking-wider text-neutral-500">
+        <tr>
+          <th scope="col" className="py-2 font-normal">
+            Size
+          </th>
+          {hasLength && (
+            <th scope="col" className="py-2 font-normal">
+              Length
+            </th>
+          )}
+          {hasHeight && (
+            <th scope="col" className="py-2 font-normal">
+              Rider height
+            </th>
+          )}
+          {hasWeight && (
+            <th scope="col" className="py-2 font-normal">
+              Rider weight
+            </th>
+          )}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-neutral-200">
+        {sizes.map(({size, length, height, weight}) => (
+          <tr key={size}>
+            <th scope="row" className="py-2 font-medium">
+              {size}
+            </th>
+            {hasLength && (
+              <td className="py-2">
+                {length ? formatMeasurement(length, 'cm', system) : '–'}
+              </td>
+            )}
+            {hasHeight && (
+              <td className="py-2">
+                {height ? formatMeasurementRange(height, 'cm', system) : '–'}
+              </td>
+            )}
+            {hasWeight && (
+              <td className="py-2">
+                {weight ? formatMeasurementRange(weight, 'kg', system) : '–'}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Suggests a size from the rider's height and weight, entered in the units
+ * shown and compared in cm and kg
+ */
+function FindMySize({
+  sizeGuide,
+  system,
+  onSelectSize,
+}: {
+  sizeGuide: SizeGuideData;
+  system: MeasurementSystem;
+  onSelectSize?: (size: string) => void;
+}) {
+  const [height, setHeight] = useState('');
+  const [weight, setWeight] = useState('');
+
+  const heightUnit = system === 'metric' ? 'cm' : 'in';
+  const weightUnit = system === 'metric' ? 'kg' : 'lb';
+  const toMetric = (
+    value: string,
+    unit: typeof heightUnit | typeof weightUnit,
+  ) =>
+    parseFloat(value) > 0
+      ? convertMeasurement(parseFloat(value), unit, 'metric').value
+      : undefined;
+
+  const suggestion = findSize(sizeGuide.sizes, {
+    height: toMetric(height, heightUnit),
+    weight: toMetric(weight, weightUnit),
+  });
+
+  const inputClassName =
+    'w-full bg-neutral-100 border border-neutral-200 px-3 py-2 text-sm text-neutral-900 focus:border-violet-500 focus:outline-none transition-colors';
+
+  return (
+    <div
+      className="space-y-3 p-4 border border-neutral-200"
+      data-test="find-my-size"
+    >
+      <h3 className="text-sm font-medium">Find my size</h3>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1 text-xs text-neutral-500">
+          <span className="block">Height ({heightUnit})</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={height}
+            onChange={(event) => setHeight(event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-neutral-500">
+          <span className="block">Weight ({weightUnit})</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={weight}
+            onChange={(event) => setWeight(event.target.value)}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+      {suggestion && (
+        <div role="status" className="flex items-center justify-between gap-4">
+          <p className="text-sm text-neutral-900">
+            {suggestion.exact
+              ? `We recommend size ${suggestion.size.size}`
+              : `Size ${suggestion.size.size} is the closest fit`}
+          </p>
+          {onSelectSize && (
+            <button
+              type="button"
+              onClick={() => onSelectSize(suggestion.size.size)}
+              className="text-xs tracking-[0.15em] uppercase text-violet-600 hover:text-violet-500 transition-colors"
+            >
+              Select size
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import {useEffect} from 'react';
+import {
+  Link as RemixLink,
+  useFetcher,
+  useLocation,
+  useNavigate,
+} from '@remix-run/react';
+import {getProductOptions, Image} from '@shopify/hydrogen';
+import clsx from 'clsx';
+
+import {Link} from '~/components/Link';
+import {Modal} from '~/components/Modal';
+import {ProductForm} from '~/components/ProductForm';
+import {Skeleton} from '~/components/Skeleton';
+import {Text} from '~/components/Text';
+import {getLineAttributeFields} from '~/lib/cart-attributes';
+import {getQuickViewSearch, QUICK_VIEW_PARAM} from '~/lib/quick-view';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {loader as quickViewLoader} from '~/routes/($locale).api.quick-view.$productHandle';
+
+type QuickViewLocationState = {quickView?: boolean} | null;
+
+/**
+ * Opens the quick view for a product on top of the current page, keeping the
+ * page's own search params.
+ */
+export function QuickViewLink({
+  handle,
+  className,
+  children,
+}: {
+  handle: string;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const {pathname, search} = useLocation();
+
+  return (
+    <RemixLink
+      to={`${pathname}${getQuickViewSearch(search, handle)}`}
+      state={{quickView: true} satisfies QuickViewLocationState}
+      preventScrollReset
+      className={className}
+    >
+      {children}
+    </RemixLink>
+  );
+}
+
+/**
+ * Renders the product from the `quickView` search param in a modal. Closing it
+ * goes back in history when it was opened in the app, so the back button and
+ * the close link leave the same history behind.
+ */
+export function QuickView() {
+  const {pathname, search, state} = useLocation();
+  const navigate = useNavigate();
+  const handle = new URLSearchParams(search).get(QUICK_VIEW_PARAM);
+
+  if (!handle) return null;
+
+  const openedInApp = (state as QuickViewLocationState)?.quickView;
+
+  return (
+    <Modal
+      cancelLink={`${pathname}${getQuickViewSearch(search, null)}`}
+      onCancel={(event) => {
+        if (!openedInApp) return;
+        event.preventDefault();
+        navigate(-1);
+      }}
+    >
+      <QuickViewProduct key={handle} handle={handle} />
+    </Modal>
+  );
+}
+
+function QuickViewProduct({handle}: {handle: string}) {
+  const {load, data, state} = useFetcher<typeof quickViewLoader>();
+  const apiPath = usePrefixPathWithLocale('/api/quick-view');
+
+  useEffect(() => {
+    load(`${apiPath}/${handle}`);
+  }, [load, apiPath, handle]);
+
+  if (!data) {
+    return (
+      <div className="grid gap-4">
+        <Skeleton className="aspect-square" />
+        <Skeleton className="w-32 h-4" />
+        <Skeleton className="w-48 h-6" />
+      </div>
+    );
+  }
+
+  const {product, storeDomain} = data;
+
+  if (!product) {
+    return (
+      <Text className="opacity-50">This product is no longer available.</Text>
+    );
+  }
+
+  const selectedVariant = product.selectedOrFirstAvailableVariant;
+  const productOptions = getProductOptions({
+    ...product,
+    selectedOrFirstAvailableVariant: selectedVariant,
+  });
+  const image = selectedVariant?.image ?? product.featuredImage;
+  const selectedOptionsQuery = new URLSearchParams(
+    (selectedVariant?.selectedOptions ?? []).map(({name, value}) => [
+      name,
+      value,
+    ]),
+  ).toString();
+
+  return (
+    <div
+      className={clsx(
+        'grid gap-6 transition-opacity',
+        state === 'loading' && 'opacity-50',
+      )}
+    >
+      {image && (
+        <div className="aspect-square bg-neutral-100 overflow-hidden">
+          <Image
+            data={image}
+            className="w-full h-full object-cover"
+            sizes="(min-width: 640px) 24rem, 100vw"
+          />
+        </div>
+      )}
+      <div className="grid gap-1">
+        {product.vendor && (
+          <span className="text-xs tracking-[0.3em] uppercase text-violet-600/80">
+            {product.vendor}
+          </span>
+        )}
+        <h2 id="modal-title" className="font-display text-2xl text-neutral-900">
+          {product.title}
+        </h2>
+      </div>
+      <ProductForm
+        productOptions={productOptions}
+        selectedVariant={selectedVariant}
+        storeDomain={storeDomain}
+        lineAttributeFields={getLineAttributeFields(product.tags)}
+        sellingPlanGroups={product.sellingPlanGroups.nodes}
+        requiresSellingPlan={product.requiresSellingPlan}
+        onSelectOption={(optionHandle, variantUriQuery) =>
+          load(`${apiPath}/${optionHandle}?${variantUriQuery}`)
+        }
+      />
+      <Link
+        to={`/products/${product.handle}?${selectedOptionsQuery}`}
+        className="text-xs tracking-[0.2em] uppercase text-neutral-500 hover:text-violet-600"
+      >
+        View full details →
+      </Link>
+    </div>
+  );
+}
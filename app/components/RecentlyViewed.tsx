@@ -0,0 +1,62 @@
+import {useEffect, useState} from 'react';
+import {useFetcher} from '@remix-run/react';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {ProductSwimlane} from '~/components/ProductSwimlane';
+import {
+  getRecentlyViewed,
+  recordRecentlyViewed,
+  type RecentlyViewedEntry,
+} from '~/lib/recently-viewed';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+
+/**
+ * Swimlane of the products the shopper looked at on previous visits. The list
+ * lives in localStorage so cached pages stay cacheable. When rendered on a
+ * product page, pass that product to record the view; it is left out of the
+ * rail itself.
+ */
+export function RecentlyViewed({
+  title = 'Recently Viewed',
+  product,
+  count,
+}: {
+  title?: string;
+  product?: RecentlyViewedEntry;
+  count?: number;
+}) {
+  const {load, data} = useFetcher<{products: ProductCardFragment[]}>();
+  const [ids, setIds] = useState<string[]>([]);
+  const productsApiPath = usePrefixPathWithLocale(
+    `/api/recently-viewed?ids=${encodeURIComponent(ids.join(','))}`,
+  );
+
+  const productId = product?.id;
+  const productHandle = product?.handle;
+
+  useEffect(() => {
+    setIds(
+      getRecentlyViewed()
+        .map(({id}) => id)
+        .filter((id) => id !== productId),
+    );
+
+    if (productId && productHandle) {
+      recordRecentlyViewed({id: productId, handle: productHandle});
+    }
+  }, [productId, productHandle]);
+
+  useEffect(() => {
+    if (ids.length) load(productsApiPath);
+  }, [ids.length, load, productsApiPath]);
+
+  if (!ids.length || !data?.products) return null;
+
+  return (
+    <ProductSwimlane
+      title={title}
+      products={{nodes: data.products}}
+      count={count}
+    />
+  );
+}
@@ -0,0 +1,180 @@
+import {Suspense} from 'react';
+import {Await, useFetcher, useRouteLoaderData} from '@remix-run/react';
+import {Image, Money, OptimisticInput} from '@shopify/hydrogen';
+import type {CartLine} from '@shopify/hydrogen/storefront-api-types';
+
+import {Link} from '~/components/Link';
+import {isVisibleAttribute} from '~/lib/cart-attributes';
+import {getCartLineKey} from '~/lib/cart-permalink';
+import type {SavedLine} from '~/lib/saved-for-later.server';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {RootLoader} from '~/root';
+
+/**
+ * Lines the shopper moved out of the cart. They come from the deferred
+ * `savedLines` of the root loader, which is revalidated after each move.
+ */
+export function SavedForLater() {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+
+  return (
+    <Suspense>
+      <Await resolve={rootData?.savedLines} errorElement={null}>
+        {(savedLines) => <SavedForLaterList savedLines={savedLines ?? []} />}
+      </Await>
+    </Suspense>
+  );
+}
+
+/**
+ * Moves a cart line to the saved items. The line is hidden right away through
+ * the same optimistic data used by the cart's remove button.
+ */
+export function SaveForLaterButton({lineId}: {lineId: CartLine['id']}) {
+  const fetcher = useFetcher({key: `save-for-later-${lineId}`});
+  const action = usePrefixPathWithLocale('/api/saved-for-later');
+
+  return (
+    <fetcher.Form method="post" action={action}>
+      <input type="hidden" name="lineId" value={lineId} />
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        disabled={fetcher.state !== 'idle'}
+        className="text-xs text-neutral-500 underline underline-offset-2 hover:text-violet-600 transition-colors"
+      >
+        Save for later
+      </button>
+      <OptimisticInput id={lineId} data={{action: 'remove'}} />
+    </fetcher.Form>
+  );
+}
+
+function SavedForLaterList({savedLines}: {savedLines: SavedLine[]}) {
+  if (!savedLines.length) return null;
+
+  return (
+    <section
+      aria-labelledby="saved-for-later"
+      className="grid gap-4 py-6 border-t border-neutral-200"
+    >
+      <h2
+        id="saved-for-later"
+        className="text-xs tracking-[0.2em] uppercase text-neutral-500"
+      >
+        Saved for later ({savedLines.length})
+      </h2>
+      <ul className="grid gap-4">
+        {savedLines.map((savedLine) => (
+          <SavedForLaterItem
+            key={getCartLineKey(savedLine)}
+            savedLine={savedLine}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function SavedForLaterItem({savedLine}: {savedLine: SavedLine}) {
+  const {merchandise, quantity, attributes} = savedLine;
+  const lineKey = getCartLineKey(savedLine);
+  const fetcher = useFetcher<{
+    error?: string;
+    errors?: Array<{message: string}>;
+  }>({key: `saved-for-later-${lineKey}`});
+  const action = usePrefixPathWithLocale('/api/saved-for-later');
+
+  // Hide the item while it is being moved or removed
+  if (fetcher.formData?.get('lineKey') === lineKey) return null;
+
+  const isAvailable = Boolean(merchandise?.availableForSale);
+  const error = fetcher.data?.error ?? fetcher.data?.errors?.[0]?.message;
+
+  return (
+    <li className="flex gap-4">
+      <div className="flex-shrink-0">
+        {merchandise?.image && (
+          <Image
+            width={80}
+            height={80}
+            data={merchandise.image}
+            className="object-cover object-center w-16 h-16 bg-neutral-100"
+            alt={merchandise.image.altText || merchandise.product.title}
+          />
+        )}
+      </div>
+      <div className="flex-1 grid gap-1 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          {merchandise ? (
+            <Link
+              to={`/products/${merchandise.product.handle}`}
+              className="text-sm font-medium text-neutral-900 hover:text-violet-600 transition-colors truncate"
+            >
+              {merchandise.product.title}
+            </Link>
+          ) : (
+            <span className="text-sm font-medium text-neutral-500">
+              No longer available
+            </span>
+          )}
+          {merchandise && (
+            <Money
+              withoutTrailingZeros
+              data={merchandise.price}
+              className="text-sm text-neutral-500"
+            />
+          )}
+        </div>
+        {merchandise?.selectedOptions
+          .filter(({value}) => value !== 'Default Title')
+          .map((option) => (
+            <p key={option.name} className="text-xs text-neutral-500">
+              {option.name}: {option.value}
+            </p>
+          ))}
+        {attributes.filter(isVisibleAttribute).map((attribute) => (
+          <p key={attribute.key} className="text-xs text-neutral-500">
+            {attribute.key}: {attribute.value}
+          </p>
+        ))}
+        <p className="text-xs text-neutral-500">Quantity: {quantity}</p>
+        <fetcher.Form
+          method="post"
+          action={action}
+          className="flex items-center gap-4 mt-1"
+        >
+          <input type="hidden" name="lineKey" value={lineKey} />
+          {isAvailable ? (
+            <button
+              type="submit"
+              name="intent"
+              value="restore"
+              className="text-xs font-medium text-neutral-900 underline underline-offset-2 hover:text-violet-600 transition-colors"
+            >
+              Move to cart
+            </button>
+          ) : (
+            merchandise && (
+              <span className="text-xs text-neutral-500">Sold out</span>
+            )
+          )}
+          <button
+            type="submit"
+            name="intent"
+            value="remove"
+            className="text-xs text-neutral-500 underline underline-offset-2 hover:text-red-500 transition-colors"
+          >
+            Remove
+          </button>
+        </fetcher.Form>
+        {error && (
+          <p role="alert" className="text-xs text-red-500">
+            {error}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
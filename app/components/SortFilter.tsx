@@ -16,32 +16,73 @@ import type {
 
 import {Heading, Text} from '~/components/Text';
 import {IconFilters, IconCaret, IconXMark} from '~/components/Icon';
-
-export type AppliedFilter = {
-  label: string;
-  filter: ProductFilter;
-};
+import {
+  addFilterParam,
+  parseFilterParams,
+  removeFilterParam,
+  type AppliedFilter,
+} from '~/lib/filters';
 
 export type SortParam =
   | 'price-low-high'
   | 'price-high-low'
   | 'best-selling'
   | 'newest'
-  | 'featured';
+  | 'featured'
+  | 'relevance';
+
+export type SortOption = {label: string; key: SortParam};
 
 type Props = {
   filters: Filter[];
   appliedFilters?: AppliedFilter[];
   children: React.ReactNode;
   collections?: Array<{handle: string; title: string}>;
+  sortOptions?: SortOption[];
 };
-export const FILTER_URL_PREFIX = 'filter.';
+
+export const COLLECTION_SORT_OPTIONS: SortOption[] = [
+  {label: 'Featured', key: 'featured'},
+  {
+    label: 'Price: Low - High',
+    key: 'price-low-high',
+  },
+  {
+    label: 'Price: High - Low',
+    key: 'price-high-low',
+  },
+  {
+    label: 'Best Selling',
+    key: 'best-selling',
+  },
+  {
+    label: 'Newest',
+    key: 'newest',
+  },
+];
+
+export const SEARCH_SORT_OPTIONS: SortOption[] = [
+  {label: 'Relevance', key: 'relevance'},
+  {
+    label: 'Price: Low - High',
+    key: 'price-low-high',
+  },
+  {
+    label: 'Price: High - Low',
+    key: 'price-high-low',
+  },
+  {
+    label: 'Newest',
+    key: 'newest',
+  },
+];
 
 export function SortFilter({
   filters,
   appliedFilters = [],
   children,
   collections = [],
+  sortOptions = COLLECTION_SORT_OPTIONS,
 }: Props) {
   const [isOpen, setIsOpen] = useState(false);
   return (
@@ -55,7 +96,7 @@ export function SortFilter({
         >
           <IconFilters />
         </button>
-        <SortMenu />
+        <SortMenu items={sortOptions} />
       </div>
       <div className="flex flex-col flex-wrap md:flex-row">
         <div
@@ -76,17 +117,16 @@ export function SortFilter({
 export function FiltersDrawer({
   filters = [],
   appliedFilters = [],
-}: Omit<Props, 'children'>) {
+}: Omit<Props, 'children' | 'sortOptions'>) {
   const [params] = useSearchParams();
   const location = useLocation();
 
   const filterMarkup = (filter: Filter, option: Filter['values'][0]) => {
     switch (filter.type) {
       case 'PRICE_RANGE':
-        const priceFilter = params.get(`${FILTER_URL_PREFIX}price`);
-        const price = priceFilter
-          ? (JSON.parse(priceFilter) as ProductFilter['price'])
-          : undefined;
+        const price = parseFilterParams(params).find(
+          (filter) => filter.price,
+        )?.price;
         const min = isNaN(Number(price?.min)) ? undefined : Number(price?.min);
         const max = isNaN(Number(price?.max)) ? undefined : Number(price?.max);
 
@@ -181,14 +221,10 @@ function getAppliedFilterLink(
   params: URLSearchParams,
   location: Location,
 ) {
-  const paramsClone = new URLSearchParams(params);
-  Object.entries(filter.filter).forEach(([key, value]) => {
-    const fullKey = FILTER_URL_PREFIX + key;
-    paramsClone.delete(fullKey, JSON.stringify(value));
-  });
-  paramsClone.delete('cursor');
-  paramsClone.delete('direction');
-  return `${location.pathname}?${paramsClone.toString()}`;
+  const newParams = removeFilterParam(params, filter.filter);
+  newParams.delete('cursor');
+  newParams.delete('direction');
+  return `${location.pathname}?${newParams.toString()}`;
 }
 
 function getSortLink(
@@ -207,8 +243,7 @@ function getFilterLink(
   params: URLSearchParams,
   location: ReturnType<typeof useLocation>,
 ) {
-  const paramsClone = new URLSearchParams(params);
-  const newParams = filterInputToParams(rawInput, paramsClone);
+  const newParams = addFilterParam(params, rawInput);
   newParams.delete('cursor');
   newParams.delete('direction');
   return `${location.pathname}?${newParams.toString()}`;
@@ -230,8 +265,13 @@ function PriceRangeFilter({max, min}: {max?: number; min?: number}) {
   useDebounce(
     () => {
       if (minPrice === undefined && maxPrice === undefined) {
-        params.delete(`${FILTER_URL_PREFIX}price`);
-        navigate(`${location.pathname}?${params.toString()}`);
+        const priceFilter = parseFilterParams(params).find(
+          (filter) => filter.price,
+        );
+        const newParams = priceFilter
+          ? removeFilterParam(params, priceFilter)
+          : params;
+        navigate(`${location.pathname}?${newParams.toString()}`);
         return;
       }
 
@@ -239,7 +279,7 @@ function PriceRangeFilter({max, min}: {max?: number; min?: number}) {
         ...(minPrice === undefined ? {} : {min: minPrice}),
         ...(maxPrice === undefined ? {} : {max: maxPrice}),
       };
-      const newParams = filterInputToParams({price}, params);
+      const newParams = addFilterParam(params, {price});
       navigate(`${location.pathname}?${newParams.toString()}`);
     },
     PRICE_RANGE_FILTER_DEBOUNCE,
@@ -290,50 +330,11 @@ function PriceRangeFilter({max, min}: {max?: number; min?: number}) {
   );
 }
 
-function filterInputToParams(
-  rawInput: string | ProductFilter,
-  params: URLSearchParams,
-) {
-  const input =
-    typeof rawInput === 'string'
-      ? (JSON.parse(rawInput) as ProductFilter)
-      : rawInput;
-
-  Object.entries(input).forEach(([key, value]) => {
-    if (params.has(`${FILTER_URL_PREFIX}${key}`, JSON.stringify(value))) {
-      return;
-    }
-    if (key === 'price') {
-      // For price, we want to overwrite
-      params.set(`${FILTER_URL_PREFIX}${key}`, JSON.stringify(value));
-    } else {
-      params.append(`${FILTER_URL_PREFIX}${key}`, JSON.stringify(value));
-    }
-  });
-
-  return params;
-}
-
-export default function SortMenu() {
-  const items: {label: string; key: SortParam}[] = [
-    {label: 'Featured', key: 'featured'},
-    {
-      label: 'Price: Low - High',
-      key: 'price-low-high',
-    },
-    {
-      label: 'Price: High - Low',
-      key: 'price-high-low',
-    },
-    {
-      label: 'Best Selling',
-      key: 'best-selling',
-    },
-    {
-      label: 'Newest',
-      key: 'newest',
-    },
-  ];
+export default function SortMenu({
+  items = COLLECTION_SORT_OPTIONS,
+}: {
+  items?: SortOption[];
+}) {
   const [params] = useSearchParams();
   const location = useLocation();
   const activeItem = items.find((item) => item.key === params.get('sort'));
@@ -0,0 +1,57 @@
+import clsx from 'clsx';
+
+import {MAX_RATING} from '~/lib/reviews';
+
+/**
+ * Stars filled up to the rating, partly for averages like 4.5, with the
+ * review count next to them when given
+ */
+export function StarRating({
+  rating,
+  count,
+  className,
+}: {
+  rating: number;
+  count?: number;
+  className?: string;
+}) {
+  const stars = Array.from({length: MAX_RATING}, (_, index) => (
+    <StarIcon key={index} />
+  ));
+
+  return (
+    <span className={clsx('inline-flex items-center gap-2', className)}>
+      <span
+        role="img"
+        aria-label={`Rated ${rating} out of ${MAX_RATING}`}
+        className="relative inline-flex text-neutral-300"
+      >
+        {stars}
+        <span
+          className="absolute inset-y-0 left-0 inline-flex overflow-hidden text-violet-600"
+          style={{width: `${(rating / MAX_RATING) * 100}%`}}
+        >
+          {stars}
+        </span>
+      </span>
+      {count !== undefined && (
+        <span className="text-xs text-neutral-500">
+          ({count} {count === 1 ? 'review' : 'reviews'})
+        </span>
+      )}
+    </span>
+  );
+}
+
+function StarIcon() {
+  return (
+    <svg
+      aria-hidden="true"
+      className="w-4 h-4 flex-shrink-0"
+      viewBox="0 0 20 20"
+      fill="currentColor"
+    >
+      <path d="M10 1.5l2.6 5.3 5.9.9-4.3 4.1 1 5.8L10 14.9l-5.2 2.7 1-5.8-4.3-4.1 5.9-.9L10 1.5z" />
+    </svg>
+  );
+}
@@ -0,0 +1,73 @@
+import clsx from 'clsx';
+
+import type {StoreAvailabilityFragment} from 'storefrontapi.generated';
+
+type StoreAvailabilityNode =
+  StoreAvailabilityFragment['storeAvailability']['nodes'][number];
+
+/**
+ * Pickup panel of the selected variant: the closest location where it can be
+ * picked up, with the other locations listed underneath. Renders nothing
+ * when the shop has no pickup locations.
+ */
+export function StoreAvailability({
+  storeAvailability = [],
+}: {
+  storeAvailability?: StoreAvailabilityNode[];
+}) {
+  if (!storeAvailability.length) return null;
+
+  const pickupLocation = storeAvailability.find(({available}) => available);
+
+  return (
+    <section
+      aria-labelledby="store-availability"
+      className="space-y-4 p-6 bg-neutral-100"
+      data-test="store-availability"
+    >
+      <div className="space-y-1">
+        <h3
+          id="store-availability"
+          className="text-sm font-medium text-neutral-900"
+        >
+          {pickupLocation
+            ? `Pickup available at ${pickupLocation.location.name}`
+            : 'Pickup currently unavailable'}
+        </h3>
+        {pickupLocation && (
+          <p className="text-sm text-neutral-500">
+            {pickupLocation.pickUpTime}
+          </p>
+        )}
+      </div>
+      <ul className="space-y-3 border-t border-neutral-200 pt-4">
+        {storeAvailability.map(
+          ({available, pickUpTime, quantityAvailable, location}) => (
+            <li key={location.id} className="flex justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-neutral-900">{location.name}</p>
+                {location.address.formatted.length > 0 && (
+                  <p className="text-xs text-neutral-500 truncate">
+                    {location.address.formatted.join(', ')}
+                  </p>
+                )}
+              </div>
+              <p
+                className={clsx(
+                  'text-xs text-right flex-shrink-0',
+                  available ? 'text-violet-600' : 'text-neutral-400',
+                )}
+              >
+                {available
+                  ? quantityAvailable > 0
+                    ? `${quantityAvailable} in stock · ${pickUpTime}`
+                    : pickUpTime
+                  : 'Out of stock'}
+              </p>
+            </li>
+          ),
+        )}
+      </ul>
+    </section>
+  );
+}
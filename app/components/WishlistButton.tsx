@@ -0,0 +1,103 @@
+import {Suspense} from 'react';
+import {Await, useFetcher, useRouteLoaderData} from '@remix-run/react';
+import clsx from 'clsx';
+
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import type {RootLoader} from '~/root';
+
+/**
+ * Heart toggle that saves a product to the shopper's wishlist. The saved
+ * state comes from the deferred `wishlist` of the root loader, which is
+ * revalidated after each toggle.
+ */
+export function WishlistButton({
+  productId,
+  className,
+}: {
+  productId: string;
+  className?: string;
+}) {
+  const rootData = useRouteLoaderData<RootLoader>('root');
+
+  return (
+    <Suspense
+      fallback={
+        <WishlistToggle
+          productId={productId}
+          isSaved={false}
+          className={className}
+        />
+      }
+    >
+      <Await
+        resolve={rootData?.wishlist}
+        errorElement={
+          <WishlistToggle
+            productId={productId}
+            isSaved={false}
+            className={className}
+          />
+        }
+      >
+        {(wishlist) => (
+          <WishlistToggle
+            productId={productId}
+            isSaved={Boolean(wishlist?.includes(productId))}
+            className={className}
+          />
+        )}
+      </Await>
+    </Suspense>
+  );
+}
+
+function WishlistToggle({
+  productId,
+  isSaved,
+  className,
+}: {
+  productId: string;
+  isSaved: boolean;
+  className?: string;
+}) {
+  const fetcher = useFetcher({key: `wishlist-${productId}`});
+  const action = usePrefixPathWithLocale('/api/wishlist');
+
+  const pendingIntent = fetcher.formData?.get('intent');
+  const optimisticIsSaved = pendingIntent ? pendingIntent === 'add' : isSaved;
+
+  return (
+    <fetcher.Form method="post" action={action} className={className}>
+      <input type="hidden" name="productId" value={productId} />
+      <button
+        type="submit"
+        name="intent"
+        value={optimisticIsSaved ? 'remove' : 'add'}
+        aria-pressed={optimisticIsSaved}
+        aria-label={
+          optimisticIsSaved ? 'Remove from wishlist' : 'Add to wishlist'
+        }
+        className={clsx(
+          'flex items-center justify-center w-9 h-9 rounded-full bg-white/90 backdrop-blur-sm transition-colors',
+          optimisticIsSaved
+            ? 'text-violet-600'
+            : 'text-neutral-500 hover:text-violet-600',
+        )}
+      >
+        <svg
+          className="w-5 h-5"
+          fill={optimisticIsSaved ? 'currentColor' : 'none'}
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z"
+          />
+        </svg>
+      </button>
+    </fetcher.Form>
+  );
+}
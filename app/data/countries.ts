@@ -6,6 +6,7 @@ export const countries: Localizations = {
     language: 'EN',
     country: 'US',
     currency: 'USD',
+    measurementSystem: 'imperial',
   },
   '/en-ad': {
     label: 'Andorra (EUR €)',
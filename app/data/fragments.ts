@@ -44,6 +44,12 @@ export const PRODUCT_CARD_FRAGMENT = `#graphql
     publishedAt
     handle
     vendor
+    rating: metafield(namespace: "reviews", key: "rating") {
+      value
+    }
+    ratingCount: metafield(namespace: "reviews", key: "rating_count") {
+      value
+    }
     featuredImage {
       id
       url
@@ -95,3 +101,246 @@ export const FEATURED_COLLECTION_FRAGMENT = `#graphql
     }
   }
 `;
+
+export const PRODUCT_VARIANT_FRAGMENT = `#graphql
+  fragment ProductVariant on ProductVariant {
+    id
+    availableForSale
+    quantityAvailable
+    selectedOptions {
+      name
+      value
+    }
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+    price {
+      amount
+      currencyCode
+    }
+    compareAtPrice {
+      amount
+      currencyCode
+    }
+    sku
+    title
+    quantityRule {
+      minimum
+      maximum
+      increment
+    }
+    quantityPriceBreaks(first: 10) {
+      nodes {
+        minimumQuantity
+        price {
+          amount
+          currencyCode
+        }
+      }
+    }
+    unitPrice {
+      amount
+      currencyCode
+    }
+    product {
+      title
+      handle
+    }
+    sellingPlanAllocations(first: 10) {
+      nodes {
+        sellingPlan {
+          id
+        }
+        priceAdjustments {
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Subscription options of a product. The price of each plan for a variant is
+ * read from the `sellingPlanAllocations` of `PRODUCT_VARIANT_FRAGMENT`.
+ */
+export const SELLING_PLAN_GROUP_FRAGMENT = `#graphql
+  fragment SellingPlanGroup on SellingPlanGroup {
+    name
+    sellingPlans(first: 10) {
+      nodes {
+        id
+        name
+        description
+        recurringDeliveries
+      }
+    }
+  }
+`;
+
+/**
+ * Hydrogen's default cart fragment, extended with the balance of applied gift
+ * cards, the discount allocations of the cart and its lines and the selling
+ * plan of each line. Passed to `createCartHandler` as `cartQueryFragment`.
+ */
+export const CART_QUERY_FRAGMENT = `#graphql
+  fragment CartApiQuery on Cart {
+    updatedAt
+    id
+    checkoutUrl
+    totalQuantity
+    buyerIdentity {
+      countryCode
+      customer {
+        id
+        email
+        firstName
+        lastName
+        displayName
+      }
+      email
+      phone
+    }
+    lines(first: $numCartLines) {
+      edges {
+        node {
+          id
+          quantity
+          attributes {
+            key
+            value
+          }
+          discountAllocations {
+            ...CartApiDiscountAllocation
+          }
+          sellingPlanAllocation {
+            sellingPlan {
+              id
+              name
+            }
+          }
+          cost {
+            totalAmount {
+              amount
+              currencyCode
+            }
+            amountPerQuantity {
+              amount
+              currencyCode
+            }
+            compareAtAmountPerQuantity {
+              amount
+              currencyCode
+            }
+          }
+          merchandise {
+            ... on ProductVariant {
+              id
+              availableForSale
+              compareAtPrice {
+                ...CartApiMoney
+              }
+              price {
+                ...CartApiMoney
+              }
+              requiresShipping
+              title
+              quantityRule {
+                minimum
+                maximum
+                increment
+              }
+              image {
+                ...CartApiImage
+              }
+              product {
+                handle
+                title
+                id
+                vendor
+              }
+              selectedOptions {
+                name
+                value
+              }
+            }
+          }
+        }
+      }
+    }
+    cost {
+      subtotalAmount {
+        ...CartApiMoney
+      }
+      totalAmount {
+        ...CartApiMoney
+      }
+      totalDutyAmount {
+        ...CartApiMoney
+      }
+      totalTaxAmount {
+        ...CartApiMoney
+      }
+    }
+    note
+    attributes {
+      key
+      value
+    }
+    discountCodes {
+      applicable
+      code
+    }
+    discountAllocations {
+      ...CartApiDiscountAllocation
+    }
+    appliedGiftCards {
+      id
+      lastCharacters
+      amountUsed {
+        ...CartApiMoney
+      }
+      presentmentAmountUsed {
+        ...CartApiMoney
+      }
+      balance {
+        ...CartApiMoney
+      }
+    }
+  }
+
+  fragment CartApiMoney on MoneyV2 {
+    currencyCode
+    amount
+  }
+
+  fragment CartApiDiscountAllocation on CartDiscountAllocation {
+    __typename
+    discountedAmount {
+      ...CartApiMoney
+    }
+    ... on CartCodeDiscountAllocation {
+      code
+    }
+    ... on CartAutomaticDiscountAllocation {
+      title
+    }
+    ... on CartCustomDiscountAllocation {
+      title
+    }
+  }
+
+  fragment CartApiImage on Image {
+    id
+    url
+    altText
+    width
+    height
+  }
+`;
@@ -0,0 +1,29 @@
+import type {Locale} from '~/lib/type';
+
+/**
+ * Cart subtotal that qualifies for free shipping, in each of the currencies
+ * used by `countries.ts`. Currencies without an entry get no progress bar.
+ * Keep these in sync with the shipping rates set up in the Shopify admin.
+ */
+export const FREE_SHIPPING_THRESHOLDS: Partial<
+  Record<Locale['currency'], number>
+> = {
+  USD: 75,
+  CAD: 100,
+  EUR: 75,
+  GBP: 60,
+  AUD: 120,
+  NZD: 130,
+  JPY: 10000,
+  KRW: 100000,
+  CNY: 500,
+  SGD: 100,
+  INR: 6000,
+  IDR: 1200000,
+  THB: 2500,
+  VND: 1800000,
+};
+
+export function getFreeShippingThreshold(currencyCode: Locale['currency']) {
+  return FREE_SHIPPING_THRESHOLDS[currencyCode] ?? null;
+}
@@ -34,6 +34,8 @@ export default async function handleRequest(
     connectSrc: [
       'self',
       'https://api.fontshare.com',
+      // 3D models of the product gallery
+      'https://cdn.shopify.com',
       'https://monorail-edge.shopifysvc.com',
       ...(process.env.NODE_ENV !== 'production' ? ['http://localhost:*', 'ws://localhost:*', 'ws://127.0.0.1:*'] : []),
     ],
@@ -43,8 +45,12 @@ export default async function handleRequest(
       'https://shopify.com',
       'https://www.google-analytics.com',
       'https://www.googletagmanager.com',
+      // `model-viewer`, loaded by the product gallery for 3D models
+      'https://unpkg.com',
       ...(process.env.NODE_ENV !== 'production' ? ['http://localhost:*'] : []),
     ],
+    // YouTube and Vimeo videos of the product gallery
+    frameSrc: ['self', 'https://www.youtube.com', 'https://player.vimeo.com'],
   });
 
   const body = await renderToReadableStream(
@@ -0,0 +1,25 @@
+// NOTE: https://shopify.dev/docs/api/customer/latest/objects/Customer#field-metafield
+export const CUSTOMER_METAFIELD_QUERY = `#graphql
+  query CustomerMetafield($namespace: String!, $key: String!) {
+    customer {
+      id
+      metafield(namespace: $namespace, key: $key) {
+        value
+      }
+    }
+  }
+` as const;
+
+// NOTE: https://shopify.dev/docs/api/customer/latest/objects/Customer#field-metafields
+export const CUSTOMER_METAFIELDS_QUERY = `#graphql
+  query CustomerMetafields($identifiers: [HasMetafieldsIdentifier!]!) {
+    customer {
+      id
+      metafields(identifiers: $identifiers) {
+        namespace
+        key
+        value
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,24 @@
+// NOTE: https://shopify.dev/docs/api/customer/latest/objects/Customer#connection-orders
+export const CUSTOMER_ORDER_PRODUCTS_QUERY = `#graphql
+  query CustomerOrderProducts($first: Int!, $after: String) {
+    customer {
+      id
+      firstName
+      lastName
+      orders(first: $first, after: $after, sortKey: PROCESSED_AT, reverse: true) {
+        nodes {
+          id
+          lineItems(first: 50) {
+            nodes {
+              productId
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+` as const;
@@ -41,6 +41,20 @@ export const CUSTOMER_ORDER_QUERY = `#graphql
       width
     }
     variantTitle
+    sellingPlan {
+      name
+    }
+  }
+  fragment OrderSubscriptionContract on SubscriptionContract {
+    id
+    status
+    nextBillingDate
+    deliveryPolicy {
+      interval
+      intervalCount {
+        count
+      }
+    }
   }
   fragment Order on Order {
     id
@@ -76,6 +90,11 @@ export const CUSTOMER_ORDER_QUERY = `#graphql
         ...OrderLineItemFull
       }
     }
+    subscriptionContracts(first: 10) {
+      nodes {
+        ...OrderSubscriptionContract
+      }
+    }
   }
   query Order($orderId: ID!) {
     order(id: $orderId) {
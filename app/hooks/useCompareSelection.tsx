@@ -0,0 +1,42 @@
+import {useCallback, useMemo, useSyncExternalStore} from 'react';
+
+import {
+  COMPARE_MAX_ITEMS,
+  getCompareSelection,
+  parseCompareIds,
+  setCompareSelection,
+  subscribeToCompareSelection,
+} from '~/lib/compare';
+
+/**
+ * The products picked for comparison, shared by every compare toggle on the
+ * page and kept in sync across tabs.
+ */
+export function useCompareSelection() {
+  const value = useSyncExternalStore(
+    subscribeToCompareSelection,
+    getCompareSelection,
+    () => '',
+  );
+  const productIds = useMemo(() => parseCompareIds(value), [value]);
+
+  const toggle = useCallback(
+    (productId: string) => {
+      setCompareSelection(
+        productIds.includes(productId)
+          ? productIds.filter((id) => id !== productId)
+          : [...productIds, productId],
+      );
+    },
+    [productIds],
+  );
+
+  const clear = useCallback(() => setCompareSelection([]), []);
+
+  return {
+    productIds,
+    isFull: productIds.length >= COMPARE_MAX_ITEMS,
+    toggle,
+    clear,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Authenticates staff tools and webhooks with an
+ * `Authorization: Bearer <secret>` header. Without a secret configured the
+ * endpoint is only open in development.
+ */
+export function isAdminAuthorized(request: Request, secret?: string) {
+  return secret
+    ? request.headers.get('Authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV === 'development';
+}
@@ -0,0 +1,140 @@
+import type {
+  CountryCode,
+  LanguageCode,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import {
+  createKVOrMemoryStorage,
+  listKeys,
+  readJSON,
+  writeJSON,
+  type KeyValueStore,
+} from './kv.server';
+import {isVariantId} from './utils';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const KV_KEY_PREFIX = 'back-in-stock:';
+
+export type BackInStockSignup = {
+  email: string;
+  variantId: string;
+  locale: {
+    country: CountryCode;
+    language: LanguageCode;
+    pathPrefix: string;
+  };
+  createdAt: string;
+};
+
+/**
+ * Where back in stock signups are kept. Swap it in `server.ts`, e.g. for a
+ * database or the API of an email service.
+ */
+export interface BackInStockStorage {
+  /**
+   * Saves a signup, returns `false` when the email already waits for the variant
+   */
+  add(signup: BackInStockSignup): Promise<boolean>;
+  list(variantId: string): Promise<BackInStockSignup[]>;
+  /**
+   * Removes all the signups of a variant and returns them
+   */
+  clear(variantId: string): Promise<BackInStockSignup[]>;
+}
+
+export function isEmail(value: unknown): value is string {
+  return typeof value === 'string' && EMAIL_REGEX.test(value.trim());
+}
+
+/**
+ * Accepts the variant GID or the numeric id sent by Admin webhooks
+ */
+export function parseVariantId(value: unknown) {
+  const id = typeof value === 'number' ? String(value) : value;
+
+  if (typeof id === 'string' && /^\d+$/.test(id)) {
+    return `gid://shopify/ProductVariant/${id}`;
+  }
+
+  return isVariantId(id) ? id : null;
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Keeps signups in the `BACK_IN_STOCK` KV namespace
+ */
+export function createBackInStockStorage(env: Env): BackInStockStorage {
+  return createKVOrMemoryStorage(
+    env.BACK_IN_STOCK,
+    createKVBackInStockStorage,
+    createMemoryBackInStockStorage,
+  );
+}
+
+const memorySignups = new Map<string, BackInStockSignup[]>();
+
+export function createMemoryBackInStockStorage(
+  signups = memorySignups,
+): BackInStockStorage {
+  return {
+    async add(signup) {
+      const current = signups.get(signup.variantId) ?? [];
+      if (current.some(({email}) => email === signup.email)) return false;
+
+      signups.set(signup.variantId, [...current, signup]);
+      return true;
+    },
+    async list(variantId) {
+      return signups.get(variantId) ?? [];
+    },
+    async clear(variantId) {
+      const current = signups.get(variantId) ?? [];
+      signups.delete(variantId);
+      return current;
+    },
+  };
+}
+
+/**
+ * One KV entry per signup, under `back-in-stock:<variantId>:<email>`, so
+ * concurrent signups never overwrite each other and the same email can only
+ * be stored once per variant.
+ */
+export function createKVBackInStockStorage(
+  kv: KeyValueStore,
+): BackInStockStorage {
+  const getPrefix = (variantId: string) => `${KV_KEY_PREFIX}${variantId}:`;
+
+  async function readSignups(keys: string[]) {
+    const signups = await Promise.all(
+      keys.map((key) => readJSON<BackInStockSignup | null>(kv, key, null)),
+    );
+
+    return signups
+      .filter((signup): signup is BackInStockSignup => Boolean(signup))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  return {
+    async add(signup) {
+      const key = getPrefix(signup.variantId) + signup.email;
+      if (await kv.get(key)) return false;
+
+      await writeJSON(kv, key, signup);
+      return true;
+    },
+    async list(variantId) {
+      return readSignups(await listKeys(kv, getPrefix(variantId)));
+    },
+    async clear(variantId) {
+      const keys = await listKeys(kv, getPrefix(variantId));
+      const signups = await readSignups(keys);
+
+      await Promise.all(keys.map((key) => kv.delete(key)));
+      return signups;
+    },
+  };
+}
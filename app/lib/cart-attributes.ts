@@ -0,0 +1,62 @@
+import type {AttributeInput} from '@shopify/hydrogen/storefront-api-types';
+
+export const CART_NOTE_MAX_LENGTH = 500;
+
+export const GIFT_ATTRIBUTE_KEY = 'Gift';
+export const GIFT_MESSAGE_ATTRIBUTE_KEY = 'Gift message';
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+export type LineAttributeField = {
+  key: string;
+  label: string;
+  maxLength: number;
+};
+
+/**
+ * Custom fields shoppers can fill in before adding a product to the cart.
+ * Products opt in with the tag of the field.
+ */
+export const LINE_ATTRIBUTE_FIELDS: Array<LineAttributeField & {tag: string}> =
+  [{tag: 'engravable', key: 'Engraving', label: 'Engraving', maxLength: 30}];
+
+export function getLineAttributeFields(tags: string[]): LineAttributeField[] {
+  return LINE_ATTRIBUTE_FIELDS.filter(({tag}) => tags.includes(tag)).map(
+    ({key, label, maxLength}) => ({key, label, maxLength}),
+  );
+}
+
+/**
+ * Attributes starting with an underscore are private and hidden from the
+ * shopper at checkout, so they are hidden in the cart too.
+ */
+export function isVisibleAttribute({key}: {key: string}) {
+  return !key.startsWith('_');
+}
+
+/**
+ * `cartAttributesUpdate` replaces every attribute of the cart, so the gift
+ * attributes are merged into the ones that are already set.
+ */
+export function getGiftAttributes(
+  attributes: AttributeInput[],
+  {isGift, message}: {isGift: boolean; message: string},
+): AttributeInput[] {
+  const otherAttributes = attributes
+    .filter(
+      ({key}) =>
+        key !== GIFT_ATTRIBUTE_KEY && key !== GIFT_MESSAGE_ATTRIBUTE_KEY,
+    )
+    .map(({key, value}) => ({key, value}));
+
+  if (!isGift) return otherAttributes;
+
+  const trimmedMessage = message.trim().slice(0, GIFT_MESSAGE_MAX_LENGTH);
+
+  return [
+    ...otherAttributes,
+    {key: GIFT_ATTRIBUTE_KEY, value: 'Yes'},
+    ...(trimmedMessage
+      ? [{key: GIFT_MESSAGE_ATTRIBUTE_KEY, value: trimmedMessage}]
+      : []),
+  ];
+}
@@ -0,0 +1,255 @@
+import {parseGid} from '@shopify/hydrogen';
+import type {AttributeInput} from '@shopify/hydrogen/storefront-api-types';
+
+import {parseDiscountCodes} from './discounts';
+
+export const CART_PERMALINK_MODE_PARAM = 'mode';
+export const CART_PERMALINK_MERGE_MODE = 'merge';
+export const CART_PERMALINK_DISCOUNT_PARAM = 'discount';
+export const CART_PERMALINK_ATTRIBUTES_PARAM = 'attributes';
+
+export const CART_PERMALINK_MAX_LINES = 25;
+export const CART_PERMALINK_MAX_QUANTITY = 999;
+const MAX_LINE_ATTRIBUTES = 10;
+const MAX_ATTRIBUTE_KEY_LENGTH = 100;
+const MAX_ATTRIBUTE_VALUE_LENGTH = 255;
+
+const NUMERIC_ID_REGEX = /^[1-9]\d{0,19}$/;
+const QUANTITY_REGEX = /^[1-9]\d*$/;
+const ATTRIBUTE_PARAM_REGEX = /^attributes\[(\d+)\]\[(.+)\]$/;
+
+export type CartPermalinkLine = {
+  merchandiseId: string;
+  quantity: number;
+  sellingPlanId?: string;
+  attributes: AttributeInput[];
+};
+
+/**
+ * An item of the permalink that could not be added, `item` is the segment
+ * of the path as the shopper sees it and `title` the product when known.
+ */
+export type CartPermalinkError = {
+  item: string;
+  title?: string;
+  reason: string;
+};
+
+/**
+ * Builds a `/cart/<variant_id>:<quantity>[:<selling_plan_id>]` permalink for
+ * the given lines. Line attributes are sent as
+ * `?attributes[<line index>][<key>]=<value>`. Identical lines are added up.
+ */
+export function getCartPermalink({
+  lines,
+  discountCodes = [],
+  merge = false,
+}: {
+  lines: Array<{
+    merchandiseId: string;
+    quantity: number;
+    sellingPlanId?: string | null;
+    attributes?: Array<{key: string; value?: string | null}>;
+  }>;
+  discountCodes?: string[];
+  merge?: boolean;
+}) {
+  const permalinkLines = dedupeLines(
+    lines.flatMap(({merchandiseId, quantity, sellingPlanId, attributes}) => {
+      if (!parseGid(merchandiseId).id || quantity < 1) return [];
+
+      return {
+        merchandiseId,
+        quantity,
+        sellingPlanId: sellingPlanId ?? undefined,
+        attributes: (attributes ?? []).flatMap(({key, value}) =>
+          value ? {key, value} : [],
+        ),
+      };
+    }),
+  ).slice(0, CART_PERMALINK_MAX_LINES);
+
+  if (!permalinkLines.length) return null;
+
+  const searchParams = new URLSearchParams();
+  permalinkLines.forEach(({attributes}, index) => {
+    for (const {key, value} of attributes) {
+      searchParams.append(
+        `${CART_PERMALINK_ATTRIBUTES_PARAM}[${index}][${key}]`,
+        value,
+      );
+    }
+  });
+  if (discountCodes.length) {
+    searchParams.set(CART_PERMALINK_DISCOUNT_PARAM, discountCodes.join(','));
+  }
+  if (merge) {
+    searchParams.set(CART_PERMALINK_MODE_PARAM, CART_PERMALINK_MERGE_MODE);
+  }
+
+  const path = `/cart/${permalinkLines
+    .map(({merchandiseId, quantity, sellingPlanId}) =>
+      [
+        parseGid(merchandiseId).id,
+        quantity,
+        ...(sellingPlanId ? [parseGid(sellingPlanId).id] : []),
+      ].join(':'),
+    )
+    .join(',')}`;
+  const search = searchParams.toString();
+
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Strictly parses the `<variant_id>:<quantity>[:<selling_plan_id>]` items of
+ * a cart permalink and their `?attributes`. Malformed items are returned as
+ * errors instead of failing the whole link, repeated items are added up and
+ * items past `CART_PERMALINK_MAX_LINES` are rejected.
+ */
+export function parseCartPermalink(
+  lines: string | undefined,
+  searchParams: URLSearchParams,
+) {
+  const attributesByIndex = parseAttributes(searchParams);
+  const errors: CartPermalinkError[] = [];
+  const parsedLines: CartPermalinkLine[] = [];
+
+  (lines ?? '').split(',').forEach((item, index) => {
+    const [variantId, quantity, sellingPlanId, ...rest] = item.split(':');
+
+    if (!item.trim()) return;
+
+    if (!NUMERIC_ID_REGEX.test(variantId ?? '') || rest.length) {
+      errors.push({item, reason: 'This is not a valid product link.'});
+      return;
+    }
+
+    if (
+      !QUANTITY_REGEX.test(quantity ?? '') ||
+      Number(quantity) > CART_PERMALINK_MAX_QUANTITY
+    ) {
+      errors.push({
+        item,
+        reason: `The quantity must be between 1 and ${CART_PERMALINK_MAX_QUANTITY}.`,
+      });
+      return;
+    }
+
+    if (sellingPlanId !== undefined && !NUMERIC_ID_REGEX.test(sellingPlanId)) {
+      errors.push({item, reason: 'The subscription option is not valid.'});
+      return;
+    }
+
+    parsedLines.push({
+      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
+      quantity: Number(quantity),
+      ...(sellingPlanId
+        ? {sellingPlanId: `gid://shopify/SellingPlan/${sellingPlanId}`}
+        : {}),
+      attributes: attributesByIndex.get(index) ?? [],
+    });
+  });
+
+  const dedupedLines = dedupeLines(parsedLines);
+
+  for (const line of dedupedLines.slice(CART_PERMALINK_MAX_LINES)) {
+    errors.push({
+      item: getPermalinkItem(line),
+      reason: `A cart link can hold up to ${CART_PERMALINK_MAX_LINES} items.`,
+    });
+  }
+
+  return {
+    lines: dedupedLines.slice(0, CART_PERMALINK_MAX_LINES),
+    errors,
+  };
+}
+
+/**
+ * Reads the comma separated `?discount` codes of a cart permalink
+ */
+export function parseCartPermalinkDiscountCodes(searchParams: URLSearchParams) {
+  return parseDiscountCodes(searchParams.get(CART_PERMALINK_DISCOUNT_PARAM));
+}
+
+/**
+ * The path segment of a line, used to tell the shopper which item failed
+ */
+export function getPermalinkItem({
+  merchandiseId,
+  quantity,
+  sellingPlanId,
+}: CartPermalinkLine) {
+  return [
+    parseGid(merchandiseId).id,
+    quantity,
+    ...(sellingPlanId ? [parseGid(sellingPlanId).id] : []),
+  ].join(':');
+}
+
+function parseAttributes(searchParams: URLSearchParams) {
+  const attributesByIndex = new Map<number, AttributeInput[]>();
+
+  searchParams.forEach((value, param) => {
+    const match = param.match(ATTRIBUTE_PARAM_REGEX);
+    if (!match) return;
+
+    const index = Number(match[1]);
+    const key = match[2].trim();
+    const attributes = attributesByIndex.get(index) ?? [];
+
+    if (
+      !key ||
+      key.length > MAX_ATTRIBUTE_KEY_LENGTH ||
+      attributes.length >= MAX_LINE_ATTRIBUTES ||
+      attributes.some((attribute) => attribute.key === key)
+    ) {
+      return;
+    }
+
+    attributes.push({key, value: value.slice(0, MAX_ATTRIBUTE_VALUE_LENGTH)});
+    attributesByIndex.set(index, attributes);
+  });
+
+  return attributesByIndex;
+}
+
+/**
+ * Identifies a line by its variant, selling plan and attributes: the cart
+ * merges the lines that share all three.
+ */
+export function getCartLineKey(line: {
+  merchandiseId: string;
+  sellingPlanId?: string | null;
+  attributes: AttributeInput[];
+}) {
+  return JSON.stringify([
+    line.merchandiseId,
+    line.sellingPlanId ?? null,
+    line.attributes.map(({key, value}) => [key, value]).sort(),
+  ]);
+}
+
+/**
+ * Adds up the quantities of lines with the same variant, selling plan and
+ * attributes, like the cart would.
+ */
+function dedupeLines(lines: CartPermalinkLine[]) {
+  const linesByKey = new Map<string, CartPermalinkLine>();
+
+  for (const line of lines) {
+    const key = getCartLineKey(line);
+    const existing = linesByKey.get(key);
+
+    linesByKey.set(key, {
+      ...line,
+      quantity: Math.min(
+        (existing?.quantity ?? 0) + line.quantity,
+        CART_PERMALINK_MAX_QUANTITY,
+      ),
+    });
+  }
+
+  return Array.from(linesByKey.values());
+}
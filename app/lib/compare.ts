@@ -0,0 +1,75 @@
+export const COMPARE_STORAGE_KEY = 'compare';
+export const COMPARE_MAX_ITEMS = 4;
+
+const PRODUCT_GID_PREFIX = 'gid://shopify/Product/';
+const COMPARE_CHANGE_EVENT = 'compare:change';
+
+/**
+ * Product GIDs are shortened to their numeric id in compare URLs, e.g.
+ * `/compare?ids=123,456`, so shared links stay readable.
+ */
+export function toCompareId(productId: string) {
+  return productId.replace(PRODUCT_GID_PREFIX, '');
+}
+
+/**
+ * Parses the `ids` search param into product GIDs, dropping anything that
+ * isn't a product id, duplicates and everything past the cap.
+ */
+export function parseCompareIds(value: string | null) {
+  const ids = (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => /^\d+$/.test(id));
+
+  return Array.from(new Set(ids))
+    .slice(0, COMPARE_MAX_ITEMS)
+    .map((id) => `${PRODUCT_GID_PREFIX}${id}`);
+}
+
+/**
+ * An empty list keeps the `ids` param, so the compare page clears the stored
+ * selection rather than reopening it.
+ */
+export function getComparePath(productIds: string[]) {
+  return `/compare?ids=${productIds.map(toCompareId).join(',')}`;
+}
+
+/**
+ * The selection built up from product cards is kept in localStorage until the
+ * shopper opens the compare page, where the URL takes over.
+ */
+export function getCompareSelection(): string {
+  if (typeof window === 'undefined') return '';
+
+  try {
+    return window.localStorage.getItem(COMPARE_STORAGE_KEY) ?? '';
+  } catch (_) {
+    return '';
+  }
+}
+
+export function setCompareSelection(productIds: string[]) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(
+      COMPARE_STORAGE_KEY,
+      productIds.slice(0, COMPARE_MAX_ITEMS).map(toCompareId).join(','),
+    );
+  } catch (_) {
+    // Storage can be full or disabled, e.g. in private browsing
+  }
+
+  window.dispatchEvent(new Event(COMPARE_CHANGE_EVENT));
+}
+
+export function subscribeToCompareSelection(callback: () => void) {
+  window.addEventListener(COMPARE_CHANGE_EVENT, callback);
+  window.addEventListener('storage', callback);
+
+  return () => {
+    window.removeEventListener(COMPARE_CHANGE_EVENT, callback);
+    window.removeEventListener('storage', callback);
+  };
+}
@@ -1,6 +1,8 @@
 export const PAGINATION_SIZE = 8;
 export const DEFAULT_GRID_IMG_LOAD_EAGER_COUNT = 4;
 export const ATTR_LOADING_EAGER = 'eager';
+/** "Only N left" is shown from this quantity down */
+export const LOW_STOCK_THRESHOLD = 5;
 
 export function getImageLoadingPriority(
   index: number,
@@ -0,0 +1,101 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import invariant from 'tiny-invariant';
+
+import type {CustomerMetafieldsQuery} from 'customer-accountapi.generated';
+import {
+  CUSTOMER_METAFIELD_QUERY,
+  CUSTOMER_METAFIELDS_QUERY,
+} from '~/graphql/customer-account/CustomerMetafieldQuery';
+import {CUSTOMER_METAFIELDS_SET_MUTATION} from '~/graphql/customer-account/CustomerMetafieldsSetMutation';
+
+export type CustomerMetafieldIdentifier = {
+  namespace: string;
+  key: string;
+};
+
+/**
+ * Reads a JSON metafield from the logged in customer. The metafield needs a
+ * definition with read and write access for the Customer Account API.
+ */
+export async function getCustomerJsonMetafield<T>(
+  customerAccount: AppLoadContext['customerAccount'],
+  {namespace, key}: CustomerMetafieldIdentifier,
+): Promise<{customerId: string; value: T | null}> {
+  const {data, errors} = await customerAccount.query(CUSTOMER_METAFIELD_QUERY, {
+    variables: {namespace, key},
+  });
+
+  invariant(!errors?.length, errors?.[0]?.message);
+  invariant(data?.customer, 'Customer not found');
+
+  let value: T | null = null;
+  try {
+    value = data.customer.metafield?.value
+      ? (JSON.parse(data.customer.metafield.value) as T)
+      : null;
+  } catch (_) {
+    // A corrupt value is treated as an empty metafield
+  }
+
+  return {customerId: data.customer.id, value};
+}
+
+/**
+ * Reads several JSON metafields from the logged in customer in one request.
+ * Values come back in the order of the identifiers, `null` when unset or
+ * corrupt.
+ */
+export async function getCustomerJsonMetafields(
+  customerAccount: AppLoadContext['customerAccount'],
+  identifiers: CustomerMetafieldIdentifier[],
+): Promise<{customerId: string; values: unknown[]}> {
+  const {data, errors} = await customerAccount.query(
+    CUSTOMER_METAFIELDS_QUERY,
+    {variables: {identifiers}},
+  );
+
+  invariant(!errors?.length, errors?.[0]?.message);
+  invariant(data?.customer, 'Customer not found');
+
+  const metafields: CustomerMetafieldsQuery['customer']['metafields'] =
+    data.customer.metafields;
+  const values = metafields.map((metafield) => {
+    try {
+      return metafield?.value ? (JSON.parse(metafield.value) as unknown) : null;
+    } catch (_) {
+      return null;
+    }
+  });
+
+  return {customerId: data.customer.id, values};
+}
+
+export async function setCustomerJsonMetafield(
+  customerAccount: AppLoadContext['customerAccount'],
+  customerId: string,
+  {namespace, key}: CustomerMetafieldIdentifier,
+  value: unknown,
+) {
+  const {data, errors} = await customerAccount.mutate(
+    CUSTOMER_METAFIELDS_SET_MUTATION,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: customerId,
+            namespace,
+            key,
+            type: 'json',
+            value: JSON.stringify(value),
+          },
+        ],
+      },
+    },
+  );
+
+  invariant(!errors?.length, errors?.[0]?.message);
+  invariant(
+    !data?.metafieldsSet?.userErrors?.length,
+    data?.metafieldsSet?.userErrors?.[0]?.message,
+  );
+}
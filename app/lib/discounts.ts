@@ -0,0 +1,103 @@
+import type {
+  CartDiscountCode,
+  CartWarningCode,
+} from '@shopify/hydrogen/storefront-api-types';
+
+export const DISCOUNT_CODES_FETCHER_KEY = 'discount-codes';
+
+/**
+ * Shopper facing reasons for the cart warnings returned when a discount code
+ * can't be applied. The cart itself only tells whether a code is applicable.
+ */
+const DISCOUNT_WARNING_REASONS: Partial<Record<CartWarningCode, string>> = {
+  DISCOUNT_NOT_FOUND: 'This code doesn’t exist.',
+  DISCOUNT_CURRENTLY_INACTIVE: 'This code isn’t active right now.',
+  DISCOUNT_USAGE_LIMIT_REACHED: 'This code has reached its usage limit.',
+  DISCOUNT_CUSTOMER_USAGE_LIMIT_REACHED: 'You have already used this code.',
+  DISCOUNT_CUSTOMER_NOT_ELIGIBLE: 'Your account isn’t eligible for this code.',
+  DISCOUNT_ELIGIBLE_CUSTOMER_MISSING: 'Log in to use this code.',
+  DISCOUNT_NO_ENTITLED_LINE_ITEMS:
+    'None of the items in your cart qualify for this code.',
+  DISCOUNT_NO_ENTITLED_SHIPPING_LINES:
+    'This code only applies to shipping, calculated at checkout.',
+  DISCOUNT_PURCHASE_NOT_IN_RANGE:
+    'Your cart total doesn’t meet the requirements of this code.',
+  DISCOUNT_QUANTITY_NOT_IN_RANGE:
+    'The number of items in your cart doesn’t meet the requirements of this code.',
+  DISCOUNT_INCOMPATIBLE_PURCHASE_TYPE:
+    'This code can’t be used with subscriptions.',
+  DISCOUNT_CODE_NOT_HONOURED: 'This code can’t be combined with your cart.',
+};
+
+const DEFAULT_DISCOUNT_REASON =
+  'This code doesn’t apply to the items in your cart.';
+
+/**
+ * Adds codes to the ones already on the cart. Codes are case insensitive,
+ * so a code that is already applied isn't added a second time.
+ */
+export function mergeDiscountCodes(
+  currentCodes: string[],
+  addedCodes: string[],
+) {
+  const codes = new Map<string, string>();
+
+  for (const code of [...currentCodes, ...addedCodes]) {
+    const trimmedCode = code.trim();
+    if (!trimmedCode || codes.has(trimmedCode.toLowerCase())) continue;
+    codes.set(trimmedCode.toLowerCase(), trimmedCode);
+  }
+
+  return Array.from(codes.values());
+}
+
+/**
+ * Reads comma separated codes, as typed by shoppers or found in links
+ */
+export function parseDiscountCodes(value: string | null | undefined) {
+  return mergeDiscountCodes([], (value ?? '').split(','));
+}
+
+/**
+ * Why a code isn't applicable. A discount warning of the last update is
+ * matched to the code through its `target`, or belongs to the code when it's
+ * the only one the cart marks as not applicable. Other codes get a generic
+ * reason.
+ */
+export function getDiscountCodeReason(
+  code: string,
+  discountCodes: Array<Pick<CartDiscountCode, 'code' | 'applicable'>>,
+  warnings: Array<{code?: string; target?: string}> = [],
+) {
+  const discountWarnings = warnings.filter(({code: warningCode}) =>
+    warningCode?.startsWith('DISCOUNT_'),
+  );
+  const inapplicableCodes = discountCodes.filter(({applicable}) => !applicable);
+
+  const warning =
+    discountWarnings.find(({target}) => isWarningTarget(target, code)) ??
+    (inapplicableCodes.length === 1 &&
+    inapplicableCodes[0].code === code &&
+    discountWarnings.length === 1
+      ? discountWarnings[0]
+      : undefined);
+
+  return (
+    DISCOUNT_WARNING_REASONS[warning?.code as CartWarningCode] ??
+    DEFAULT_DISCOUNT_REASON
+  );
+}
+
+/**
+ * Warning targets are IDs, the code is their last segment when they point to
+ * a discount code
+ */
+function isWarningTarget(target: string | undefined, code: string) {
+  const lastSegment = target?.split('/').pop() ?? '';
+
+  try {
+    return decodeURIComponent(lastSegment).toLowerCase() === code.toLowerCase();
+  } catch (_) {
+    return false;
+  }
+}
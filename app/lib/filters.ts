@@ -0,0 +1,405 @@
+import type {
+  Filter,
+  ProductFilter,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import type {I18nLocale} from './type';
+import {parseAsCurrency} from './utils';
+
+export const FILTER_URL_PREFIX = 'filter.';
+
+export type AppliedFilter = {
+  label: string;
+  filter: ProductFilter;
+};
+
+/*
+  Filters are written to the URL with readable, Liquid-style keys, e.g.
+  `?filter.p.vendor=Burton&filter.v.option.size=158&filter.v.price.gte=100`.
+  The legacy `filter.<key>=<json>` form is still accepted when parsing.
+*/
+const PRICE_MIN_PARAM = `${FILTER_URL_PREFIX}v.price.gte`;
+const PRICE_MAX_PARAM = `${FILTER_URL_PREFIX}v.price.lte`;
+const AVAILABILITY_PARAM = `${FILTER_URL_PREFIX}v.availability`;
+const OPTION_PARAM_PREFIX = `${FILTER_URL_PREFIX}v.option.`;
+const VENDOR_PARAM = `${FILTER_URL_PREFIX}p.vendor`;
+const PRODUCT_TYPE_PARAM = `${FILTER_URL_PREFIX}p.product_type`;
+const TAG_PARAM = `${FILTER_URL_PREFIX}p.tag`;
+const METAFIELD_PARAM_PREFIX = `${FILTER_URL_PREFIX}p.m.`;
+
+/**
+ * Reads every `filter.*` search param into validated `ProductFilter`s.
+ * Malformed values and unknown keys are dropped instead of throwing, and
+ * duplicate filters are only returned once.
+ */
+export function parseFilterParams(params: URLSearchParams): ProductFilter[] {
+  const filters: ProductFilter[] = [];
+  let price: NonNullable<ProductFilter['price']> | undefined;
+
+  for (const [key, value] of params.entries()) {
+    if (!key.startsWith(FILTER_URL_PREFIX)) continue;
+
+    if (key === PRICE_MIN_PARAM || key === PRICE_MAX_PARAM) {
+      const amount = parsePrice(value);
+      if (amount === undefined) continue;
+      price = {
+        ...price,
+        [key === PRICE_MIN_PARAM ? 'min' : 'max']: amount,
+      };
+      continue;
+    }
+
+    for (const filter of parseFilterParam(key, value)) {
+      if (filter.price) {
+        price = filter.price;
+      } else {
+        filters.push(filter);
+      }
+    }
+  }
+
+  if (price && (price.min !== undefined || price.max !== undefined)) {
+    filters.unshift({price});
+  }
+
+  return filters.filter(
+    (filter, index) =>
+      filters.findIndex((other) => isSameFilter(filter, other)) === index,
+  );
+}
+
+/**
+ * Validates a filter object, such as the JSON `input` of a Storefront API
+ * `FilterValue`. Returns one `ProductFilter` per valid key.
+ */
+export function parseFilterInput(input: unknown): ProductFilter[] {
+  if (typeof input === 'string') {
+    input = safeJsonParse(input);
+  }
+
+  if (!isObject(input)) return [];
+
+  const filters: ProductFilter[] = [];
+
+  Object.entries(input).forEach(([key, value]) => {
+    switch (key) {
+      case 'price': {
+        if (!isObject(value)) return;
+        const min = parsePrice(value.min);
+        const max = parsePrice(value.max);
+        if (min === undefined && max === undefined) return;
+        filters.push({
+          price: {
+            ...(min === undefined ? {} : {min}),
+            ...(max === undefined ? {} : {max}),
+          },
+        });
+        return;
+      }
+      case 'variantOption':
+        if (
+          isObject(value) &&
+          isNonEmptyString(value.name) &&
+          isNonEmptyString(value.value)
+        ) {
+          filters.push({variantOption: {name: value.name, value: value.value}});
+        }
+        return;
+      case 'productVendor':
+      case 'productType':
+      case 'tag':
+        if (isNonEmptyString(value)) {
+          filters.push({[key]: value});
+        }
+        return;
+      case 'available':
+        if (typeof value === 'boolean') {
+          filters.push({available: value});
+        }
+        return;
+      case 'productMetafield':
+        if (
+          isObject(value) &&
+          isNonEmptyString(value.namespace) &&
+          isNonEmptyString(value.key) &&
+          isNonEmptyString(value.value)
+        ) {
+          filters.push({
+            productMetafield: {
+              namespace: value.namespace,
+              key: value.key,
+              value: value.value,
+            },
+          });
+        }
+        return;
+      default:
+        // Unsupported filter keys are ignored
+        return;
+    }
+  });
+
+  return filters;
+}
+
+/**
+ * Returns a copy of `params` with its `filter.*` entries replaced by
+ * `filters`, written in a canonical (sorted) order so that the same
+ * selection always produces the same URL.
+ */
+export function setFilterParams(
+  params: URLSearchParams,
+  filters: ProductFilter[],
+) {
+  const newParams = new URLSearchParams();
+
+  params.forEach((value, key) => {
+    if (!key.startsWith(FILTER_URL_PREFIX)) {
+      newParams.append(key, value);
+    }
+  });
+
+  filters
+    .flatMap(filterToParamEntries)
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? valueA.localeCompare(valueB) : keyA.localeCompare(keyB),
+    )
+    .forEach(([key, value]) => {
+      if (!newParams.has(key, value)) {
+        newParams.append(key, value);
+      }
+    });
+
+  return newParams;
+}
+
+/**
+ * Adds a filter to the URL. A price range replaces any existing one.
+ */
+export function addFilterParam(
+  params: URLSearchParams,
+  rawInput: string | ProductFilter,
+) {
+  const filters = parseFilterParams(params);
+
+  parseFilterInput(rawInput).forEach((input) => {
+    if (input.price) {
+      const index = filters.findIndex((filter) => filter.price);
+      if (index !== -1) filters.splice(index, 1);
+    }
+    if (!filters.some((filter) => isSameFilter(filter, input))) {
+      filters.push(input);
+    }
+  });
+
+  return setFilterParams(params, filters);
+}
+
+export function removeFilterParam(
+  params: URLSearchParams,
+  filterToRemove: ProductFilter,
+) {
+  const filters = parseFilterParams(params).filter(
+    (filter) => !isSameFilter(filter, filterToRemove),
+  );
+
+  return setFilterParams(params, filters);
+}
+
+export function isSameFilter(a: ProductFilter, b: ProductFilter) {
+  return (
+    JSON.stringify(filterToParamEntries(a)) ===
+    JSON.stringify(filterToParamEntries(b))
+  );
+}
+
+/**
+ * Pairs the filters applied on the URL with the filter values returned by
+ * the Storefront API to get a human readable label for each of them.
+ */
+export function getAppliedFilters(
+  filters: ProductFilter[],
+  availableFilters: Pick<Filter, 'values'>[],
+  locale: I18nLocale,
+): AppliedFilter[] {
+  const allFilterValues = availableFilters.flatMap((filter) => filter.values);
+
+  return filters.map((filter) => {
+    if (filter.price) {
+      const min = parseAsCurrency(filter.price.min ?? 0, locale);
+      const max =
+        filter.price.max !== undefined && filter.price.max !== null
+          ? parseAsCurrency(filter.price.max, locale)
+          : '';
+      const label = min && max ? `${min} - ${max}` : `${min}+`;
+
+      return {filter, label};
+    }
+
+    const foundValue = allFilterValues.find((value) =>
+      parseFilterInput(value.input).some((input) =>
+        isSameFilter(input, filter),
+      ),
+    );
+
+    return {
+      filter,
+      label: foundValue?.label ?? getFallbackLabel(filter),
+    };
+  });
+}
+
+/**
+ * The `products` query has no `productFilters` argument, so the filters it
+ * can honour are translated to search syntax instead. Variant option and
+ * metafield filters have no equivalent and are left out.
+ * @see https://shopify.dev/docs/api/usage/search-syntax
+ */
+export function getProductSearchQuery(filters: ProductFilter[]) {
+  return filters
+    .flatMap((filter) => {
+      if (filter.price) {
+        return [
+          filter.price.min !== undefined && filter.price.min !== null
+            ? `variants.price:>=${filter.price.min}`
+            : '',
+          filter.price.max !== undefined && filter.price.max !== null
+            ? `variants.price:<=${filter.price.max}`
+            : '',
+        ];
+      }
+      if (filter.productVendor) {
+        return [`vendor:${quoteSearchValue(filter.productVendor)}`];
+      }
+      if (filter.productType) {
+        return [`product_type:${quoteSearchValue(filter.productType)}`];
+      }
+      if (filter.tag) {
+        return [`tag:${quoteSearchValue(filter.tag)}`];
+      }
+      if (typeof filter.available === 'boolean') {
+        return [`available_for_sale:${filter.available}`];
+      }
+      return [];
+    })
+    .filter(Boolean)
+    .join(' AND ');
+}
+
+function parseFilterParam(key: string, value: string): ProductFilter[] {
+  if (key === AVAILABILITY_PARAM) {
+    if (value === '1' || value === 'true') return [{available: true}];
+    if (value === '0' || value === 'false') return [{available: false}];
+    return [];
+  }
+
+  if (key.startsWith(OPTION_PARAM_PREFIX)) {
+    const name = key.substring(OPTION_PARAM_PREFIX.length);
+    return parseFilterInput({variantOption: {name, value}});
+  }
+
+  if (key.startsWith(METAFIELD_PARAM_PREFIX)) {
+    const path = key.substring(METAFIELD_PARAM_PREFIX.length);
+    const separator = path.lastIndexOf('.');
+    return parseFilterInput({
+      productMetafield: {
+        namespace: path.substring(0, separator),
+        key: path.substring(separator + 1),
+        value,
+      },
+    });
+  }
+
+  switch (key) {
+    case VENDOR_PARAM:
+      return parseFilterInput({productVendor: value});
+    case PRODUCT_TYPE_PARAM:
+      return parseFilterInput({productType: value});
+    case TAG_PARAM:
+      return parseFilterInput({tag: value});
+    default: {
+      // Legacy `filter.<key>=<json>` params
+      const filterKey = key.substring(FILTER_URL_PREFIX.length);
+      return parseFilterInput({[filterKey]: safeJsonParse(value)});
+    }
+  }
+}
+
+function filterToParamEntries(filter: ProductFilter): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+
+  if (filter.price) {
+    const {min, max} = filter.price;
+    if (min !== undefined && min !== null) {
+      entries.push([PRICE_MIN_PARAM, String(min)]);
+    }
+    if (max !== undefined && max !== null) {
+      entries.push([PRICE_MAX_PARAM, String(max)]);
+    }
+  }
+  if (filter.variantOption) {
+    entries.push([
+      `${OPTION_PARAM_PREFIX}${filter.variantOption.name}`,
+      filter.variantOption.value,
+    ]);
+  }
+  if (filter.productVendor) {
+    entries.push([VENDOR_PARAM, filter.productVendor]);
+  }
+  if (filter.productType) {
+    entries.push([PRODUCT_TYPE_PARAM, filter.productType]);
+  }
+  if (filter.tag) {
+    entries.push([TAG_PARAM, filter.tag]);
+  }
+  if (typeof filter.available === 'boolean') {
+    entries.push([AVAILABILITY_PARAM, filter.available ? '1' : '0']);
+  }
+  if (filter.productMetafield) {
+    const {namespace, key, value} = filter.productMetafield;
+    entries.push([`${METAFIELD_PARAM_PREFIX}${namespace}.${key}`, value]);
+  }
+
+  return entries;
+}
+
+function getFallbackLabel(filter: ProductFilter) {
+  if (typeof filter.available === 'boolean') {
+    return filter.available ? 'In stock' : 'Out of stock';
+  }
+
+  return (
+    filter.variantOption?.value ??
+    filter.productVendor ??
+    filter.productType ??
+    filter.tag ??
+    filter.productMetafield?.value ??
+    ''
+  );
+}
+
+function parsePrice(value: unknown) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+function quoteSearchValue(value: string) {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (_) {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
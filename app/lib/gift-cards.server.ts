@@ -0,0 +1,48 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+export const GIFT_CARD_CODES_SESSION_KEY = 'giftCardCodes';
+
+/**
+ * Redeems a gift card on top of the ones already applied. The cart API only
+ * replaces the whole list of codes and the cart only exposes their last
+ * characters, so the codes redeemed in this session are kept server side and
+ * sent again, minus the ones that were removed from the cart since.
+ */
+export async function addGiftCardCode(context: AppLoadContext, code: string) {
+  const {cart, session} = context;
+  const current = await cart.get();
+  const appliedGiftCards = current?.appliedGiftCards ?? [];
+
+  const knownCodes = parseGiftCardCodes(
+    session.get(GIFT_CARD_CODES_SESSION_KEY),
+  ).filter((knownCode) =>
+    appliedGiftCards.some(({lastCharacters}) =>
+      knownCode.toLowerCase().endsWith(lastCharacters.toLowerCase()),
+    ),
+  );
+
+  const giftCardCodes = [
+    ...knownCodes.filter(
+      (knownCode) => knownCode.toLowerCase() !== code.toLowerCase(),
+    ),
+    code,
+  ];
+
+  const result = await cart.updateGiftCardCodes(giftCardCodes);
+
+  // A code the cart refused isn't kept for the next redemption
+  session.set(
+    GIFT_CARD_CODES_SESSION_KEY,
+    result.userErrors?.length ? knownCodes : giftCardCodes,
+  );
+
+  return result;
+}
+
+function parseGiftCardCodes(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+
+  return (value as unknown[]).filter(
+    (code): code is string => typeof code === 'string' && code.length > 0,
+  );
+}
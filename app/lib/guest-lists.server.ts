@@ -0,0 +1,121 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+import {
+  createKVOrMemoryStorage,
+  readJSON,
+  writeJSON,
+  type KeyValueStore,
+} from './kv.server';
+
+export const GUEST_ID_SESSION_KEY = 'guestId';
+
+const KV_KEY_PREFIX = 'guest-lists:';
+const GUEST_LIST_TTL = 60 * 60 * 24 * 30;
+
+export type GuestListName = 'wishlist' | 'saved-for-later';
+
+/**
+ * Where the lists of shoppers who aren't logged in are kept. The session
+ * cookie only holds a random guest id: the lists themselves would soon
+ * outgrow what a cookie can carry.
+ */
+export interface GuestListStorage {
+  get(guestId: string, list: GuestListName): Promise<unknown>;
+  set(guestId: string, list: GuestListName, value: unknown): Promise<void>;
+  delete(guestId: string, list: GuestListName): Promise<void>;
+}
+
+/**
+ * Keeps guest lists in the `GUEST_LISTS` KV namespace
+ */
+export function createGuestListStorage(env: Env): GuestListStorage {
+  return createKVOrMemoryStorage(
+    env.GUEST_LISTS,
+    createKVGuestListStorage,
+    createMemoryGuestListStorage,
+  );
+}
+
+const memoryLists = new Map<string, unknown>();
+
+export function createMemoryGuestListStorage(
+  lists = memoryLists,
+): GuestListStorage {
+  const getKey = (guestId: string, list: GuestListName) => `${guestId}:${list}`;
+
+  return {
+    async get(guestId, list) {
+      return lists.get(getKey(guestId, list)) ?? null;
+    },
+    async set(guestId, list, value) {
+      lists.set(getKey(guestId, list), value);
+    },
+    async delete(guestId, list) {
+      lists.delete(getKey(guestId, list));
+    },
+  };
+}
+
+/**
+ * One KV entry per guest and list, dropped after 30 days without changes
+ */
+export function createKVGuestListStorage(kv: KeyValueStore): GuestListStorage {
+  const getKey = (guestId: string, list: GuestListName) =>
+    `${KV_KEY_PREFIX}${guestId}:${list}`;
+
+  return {
+    get(guestId, list) {
+      return readJSON<unknown>(kv, getKey(guestId, list), null);
+    },
+    set(guestId, list, value) {
+      return writeJSON(kv, getKey(guestId, list), value, {
+        expirationTtl: GUEST_LIST_TTL,
+      });
+    },
+    delete(guestId, list) {
+      return kv.delete(getKey(guestId, list));
+    },
+  };
+}
+
+function getGuestId(context: AppLoadContext) {
+  const guestId: unknown = context.session.get(GUEST_ID_SESSION_KEY);
+  return typeof guestId === 'string' ? guestId : null;
+}
+
+/**
+ * Returns the raw list of the current guest, `null` for a new visitor
+ */
+export async function getGuestList(
+  context: AppLoadContext,
+  list: GuestListName,
+) {
+  const guestId = getGuestId(context);
+  return guestId ? context.guestLists.get(guestId, list) : null;
+}
+
+/**
+ * Saves a list for the current guest, giving them a guest id on first use
+ */
+export async function setGuestList(
+  context: AppLoadContext,
+  list: GuestListName,
+  value: unknown,
+) {
+  let guestId = getGuestId(context);
+
+  if (!guestId) {
+    guestId = crypto.randomUUID();
+    context.session.set(GUEST_ID_SESSION_KEY, guestId);
+  }
+
+  await context.guestLists.set(guestId, list, value);
+}
+
+export async function deleteGuestList(
+  context: AppLoadContext,
+  list: GuestListName,
+) {
+  const guestId = getGuestId(context);
+  if (guestId) await context.guestLists.delete(guestId, list);
+}
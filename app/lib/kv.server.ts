@@ -0,0 +1,72 @@
+/**
+ * The subset of a Workers KV namespace used by the KV storages
+ */
+export type KeyValueStore = {
+  get(key: string): Promise<string | null>;
+  put(
+    key: string,
+    value: string,
+    options?: {expirationTtl?: number},
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: {prefix: string; cursor?: string}): Promise<{
+    keys: Array<{name: string}>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+};
+
+/**
+ * Picks the KV storage when the environment has the namespace, otherwise the
+ * memory one, which only lasts as long as the worker and is meant for local
+ * development and tests.
+ */
+export function createKVOrMemoryStorage<Storage>(
+  kv: KeyValueStore | undefined,
+  createKVStorage: (kv: KeyValueStore) => Storage,
+  createMemoryStorage: () => Storage,
+): Storage {
+  return kv ? createKVStorage(kv) : createMemoryStorage();
+}
+
+/**
+ * Reads a JSON entry, `fallback` when the key is missing or its value corrupt
+ */
+export async function readJSON<T>(
+  kv: KeyValueStore,
+  key: string,
+  fallback: T,
+): Promise<T> {
+  const value = await kv.get(key);
+
+  try {
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch (_) {
+    return fallback;
+  }
+}
+
+export function writeJSON(
+  kv: KeyValueStore,
+  key: string,
+  value: unknown,
+  options?: {expirationTtl?: number},
+) {
+  return kv.put(key, JSON.stringify(value), options);
+}
+
+/**
+ * All the key names starting with `prefix`, through every page of the listing
+ */
+export async function listKeys(kv: KeyValueStore, prefix: string) {
+  const names: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({prefix, cursor});
+    names.push(...page.keys.map(({name}) => name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return names;
+}
@@ -0,0 +1,194 @@
+import type {SelectedOption} from '@shopify/hydrogen/storefront-api-types';
+
+import type {MediaFragment} from 'storefrontapi.generated';
+
+/**
+ * Alt text tag linking a medium to an option value, e.g. "Top view #Red"
+ */
+const ALT_TEXT_OPTION_TAG = /#\s*([^#]+?)\s*$/;
+
+type MediaVariant = {
+  image?: {id?: string | null} | null;
+  selectedOptions: SelectedOption[];
+};
+
+/**
+ * Option values each medium shows, by media id. Media without options are
+ * shared by all the variants. Three conventions are supported, the first that
+ * applies wins:
+ * - the `custom.media_groups` JSON metafield of the product, e.g.
+ *   `{"Color": {"Red": ["gid://shopify/MediaImage/1"]}}`
+ * - a `#<option value>` tag at the end of the alt text, e.g. "Top view #Red"
+ * - the image of variants, linked to the options these variants share
+ */
+export function getMediaOptions({
+  media,
+  options,
+  variants,
+  mediaGroups,
+}: {
+  media: MediaFragment[];
+  options: Array<{name: string; optionValues: Array<{name: string}>}>;
+  variants: Array<MediaVariant | null | undefined>;
+  mediaGroups?: string | null;
+}) {
+  const mediaOptions = new Map<string, SelectedOption[]>();
+  const groups = parseMediaGroups(mediaGroups);
+
+  for (const medium of media) {
+    const groupOption = groups.get(medium.id);
+    if (groupOption) {
+      mediaOptions.set(medium.id, [groupOption]);
+      continue;
+    }
+
+    const tag = medium.alt?.match(ALT_TEXT_OPTION_TAG)?.[1].toLowerCase();
+    const taggedOption = tag ? findOptionValue(options, tag) : undefined;
+    if (taggedOption) {
+      mediaOptions.set(medium.id, [taggedOption]);
+      continue;
+    }
+
+    const imageId =
+      medium.__typename === 'MediaImage' ? medium.image?.id : undefined;
+    const imageVariants = imageId
+      ? variants.filter((variant) => variant?.image?.id === imageId)
+      : [];
+    if (imageVariants.length) {
+      // An image shared by e.g. all the sizes of a colour shows that colour
+      const [first, ...others] = imageVariants;
+      const sharedOptions = first!.selectedOptions.filter(({name, value}) =>
+        others.every((variant) =>
+          variant!.selectedOptions.some(
+            (option) => option.name === name && option.value === value,
+          ),
+        ),
+      );
+      if (sharedOptions.length) mediaOptions.set(medium.id, sharedOptions);
+    }
+  }
+
+  return mediaOptions;
+}
+
+/**
+ * Whether a medium belongs with the selected options, i.e. it is shared or
+ * all the options it shows are selected
+ */
+export function isMediaForOptions(
+  mediumOptions: SelectedOption[] | undefined,
+  selectedOptions: SelectedOption[],
+) {
+  return (
+    !mediumOptions ||
+    mediumOptions.every(({name, value}) =>
+      selectedOptions.some(
+        (selected) => selected.name === name && selected.value === value,
+      ),
+    )
+  );
+}
+
+/**
+ * Hides the media of the other variants or option values, so the gallery
+ * shows the selected ones next to the media shared by all variants. The
+ * selected variant's media come first. Falls back to all the media when
+ * nothing would be left.
+ */
+export function getVariantMedia(
+  media: MediaFragment[],
+  mediaOptions: Map<string, SelectedOption[]>,
+  selectedOptions: SelectedOption[],
+) {
+  const variantMedia = media.filter(
+    ({id}) =>
+      mediaOptions.has(id) &&
+      isMediaForOptions(mediaOptions.get(id), selectedOptions),
+  );
+  const sharedMedia = media.filter(({id}) => !mediaOptions.has(id));
+
+  return variantMedia.length || sharedMedia.length
+    ? [...variantMedia, ...sharedMedia]
+    : media;
+}
+
+/**
+ * One medium for each of the other option values that have media, e.g. the
+ * first image of each other colour, so they can be offered as shortcuts
+ */
+export function getOtherOptionMedia(
+  media: MediaFragment[],
+  mediaOptions: Map<string, SelectedOption[]>,
+  selectedOptions: SelectedOption[],
+) {
+  const otherMedia = new Map<
+    string,
+    {medium: MediaFragment; options: SelectedOption[]}
+  >();
+
+  for (const medium of media) {
+    const options = mediaOptions.get(medium.id);
+    if (!options || isMediaForOptions(options, selectedOptions)) continue;
+
+    const key = options.map(({name, value}) => `${name}:${value}`).join(',');
+    if (!otherMedia.has(key)) otherMedia.set(key, {medium, options});
+  }
+
+  return Array.from(otherMedia.values());
+}
+
+/**
+ * Variants the product page knows about: the selected one, its adjacent
+ * variants and the first variant of each option value
+ */
+export function getKnownVariants<T extends MediaVariant>(product: {
+  selectedOrFirstAvailableVariant?: T | null;
+  adjacentVariants: T[];
+  options: Array<{
+    optionValues: Array<{firstSelectableVariant?: T | null}>;
+  }>;
+}) {
+  return [
+    product.selectedOrFirstAvailableVariant,
+    ...product.adjacentVariants,
+    ...product.options.flatMap(({optionValues}) =>
+      optionValues.map(({firstSelectableVariant}) => firstSelectableVariant),
+    ),
+  ].filter((variant): variant is T => Boolean(variant));
+}
+
+function findOptionValue(
+  options: Array<{name: string; optionValues: Array<{name: string}>}>,
+  value: string,
+) {
+  for (const option of options) {
+    const optionValue = option.optionValues.find(
+      ({name}) => name.toLowerCase() === value,
+    );
+    if (optionValue) return {name: option.name, value: optionValue.name};
+  }
+}
+
+function parseMediaGroups(value: string | null | undefined) {
+  const groups = new Map<string, SelectedOption>();
+  if (!value) return groups;
+
+  try {
+    const parsed = JSON.parse(value) as Record<
+      string,
+      Record<string, string[]>
+    >;
+
+    for (const [name, values] of Object.entries(parsed)) {
+      for (const [optionValue, mediaIds] of Object.entries(values)) {
+        for (const mediaId of mediaIds) {
+          groups.set(mediaId, {name, value: optionValue});
+        }
+      }
+    }
+  } catch (_) {
+    // A malformed metafield leaves the media ungrouped
+  }
+
+  return groups;
+}
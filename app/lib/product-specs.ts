@@ -0,0 +1,214 @@
+import type {MeasurementSystem} from './type';
+
+export type MeasurementUnit = keyof typeof CONVERSIONS;
+
+export type ProductSpec = {
+  label: string;
+  value: string | number;
+  unit?: MeasurementUnit;
+};
+
+/**
+ * A board size with the rider heights (cm) and weights (kg) it suits
+ */
+export type SizeGuideSize = {
+  size: string;
+  length?: number;
+  height?: [number, number];
+  weight?: [number, number];
+};
+
+export type SizeGuide = {
+  title: string;
+  /** The product option whose values are the sizes, e.g. "Size" */
+  option?: string;
+  sizes: SizeGuideSize[];
+};
+
+type MetaobjectField = {key: string; value?: string | null};
+
+type SpecsMetafield = {
+  value: string;
+  references?: {nodes: Array<{fields?: MetaobjectField[]}>} | null;
+} | null;
+
+type SizeGuideMetafield = {
+  value: string;
+  reference?: {fields?: MetaobjectField[]} | null;
+} | null;
+
+const CONVERSIONS = {
+  mm: {system: 'metric', to: 'in', factor: 1 / 25.4},
+  cm: {system: 'metric', to: 'in', factor: 1 / 2.54},
+  g: {system: 'metric', to: 'oz', factor: 1 / 28.3495},
+  kg: {system: 'metric', to: 'lb', factor: 2.20462},
+  in: {system: 'imperial', to: 'cm', factor: 2.54},
+  oz: {system: 'imperial', to: 'g', factor: 28.3495},
+  lb: {system: 'imperial', to: 'kg', factor: 1 / 2.20462},
+} as const;
+
+export function isMeasurementUnit(value: unknown): value is MeasurementUnit {
+  return typeof value === 'string' && value in CONVERSIONS;
+}
+
+/**
+ * Converts a measurement to the unit of the other system when needed, e.g.
+ * 156 cm to 61.4 in for `imperial`. Rounded to one decimal.
+ */
+export function convertMeasurement(
+  value: number,
+  unit: MeasurementUnit,
+  system: MeasurementSystem,
+): {value: number; unit: MeasurementUnit} {
+  const conversion = CONVERSIONS[unit];
+
+  if (conversion.system === system) return {value, unit};
+
+  return {
+    value: Math.round(value * conversion.factor * 10) / 10,
+    unit: conversion.to,
+  };
+}
+
+export function formatMeasurement(
+  value: number,
+  unit: MeasurementUnit,
+  system: MeasurementSystem,
+) {
+  const converted = convertMeasurement(value, unit, system);
+  return `${converted.value} ${converted.unit}`;
+}
+
+/**
+ * A range like "150–165 cm" in the shopper's units
+ */
+export function formatMeasurementRange(
+  [min, max]: [number, number],
+  unit: MeasurementUnit,
+  system: MeasurementSystem,
+) {
+  const from = convertMeasurement(min, unit, system);
+  const to = convertMeasurement(max, unit, system);
+
+  return `${Math.round(from.value)}–${Math.round(to.value)} ${to.unit}`;
+}
+
+/**
+ * Spec rows from the `custom.specs` product metafield, either JSON, e.g.
+ * `[{"label": "Length", "value": 156, "unit": "cm"}, {"label": "Flex", "value": "Medium"}]`,
+ * or a list of metaobjects with `label`, `value` and `unit` fields
+ */
+export function parseSpecs(metafield?: SpecsMetafield): ProductSpec[] {
+  if (!metafield) return [];
+
+  const entries = metafield.references?.nodes.length
+    ? metafield.references.nodes.map(({fields}) => getMetaobjectFields(fields))
+    : parseJSON<unknown[]>(metafield.value);
+
+  if (!Array.isArray(entries)) return [];
+
+  return (entries as Array<Partial<Record<keyof ProductSpec, unknown>>>)
+    .map(({label, value, unit}) => {
+      const number =
+        typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+
+      return isMeasurementUnit(unit) && !Number.isNaN(number)
+        ? {label: String(label ?? ''), value: number, unit}
+        : {label: String(label ?? ''), value: String(value ?? '')};
+    })
+    .filter(({label, value}) => label && value !== '');
+}
+
+/**
+ * The size guide from the `custom.size_guide` product metafield, either JSON,
+ * e.g. `{"title": "Board sizes", "option": "Size", "sizes": [{"size": "154",
+ * "length": 154, "height": [160, 175], "weight": [55, 75]}]}`, or a metaobject
+ * with `title`, `option` and `sizes` (JSON) fields. Lengths and heights are in
+ * cm, weights in kg.
+ */
+export function parseSizeGuide(
+  metafield?: SizeGuideMetafield,
+): SizeGuide | null {
+  if (!metafield) return null;
+
+  const fields = metafield.reference
+    ? getMetaobjectFields(metafield.reference.fields)
+    : null;
+  const guide = fields
+    ? {...fields, sizes: parseJSON<unknown>(fields.sizes ?? '')}
+    : parseJSON<Record<string, unknown>>(metafield.value);
+
+  if (!guide || !Array.isArray(guide.sizes)) return null;
+
+  const sizes = (guide.sizes as Array<Record<string, unknown>>)
+    .filter(({size}) => size !== undefined && size !== '')
+    .map(({size, length, height, weight}) => ({
+      size: String(size),
+      length: typeof length === 'number' ? length : undefined,
+      height: parseRange(height),
+      weight: parseRange(weight),
+    }));
+
+  if (!sizes.length) return null;
+
+  return {
+    title: typeof guide.title === 'string' ? guide.title : 'Size guide',
+    option: typeof guide.option === 'string' ? guide.option : undefined,
+    sizes,
+  };
+}
+
+/**
+ * The size whose rider ranges fit a height (cm) and weight (kg) best. Weight
+ * counts double, as it matters more than height for a board's length. Only
+ * the sizes with a range for every entered measurement are compared.
+ * @returns the size, `exact` when it fits both, or `null` without measurements
+ * or comparable sizes
+ */
+export function findSize(
+  sizes: SizeGuideSize[],
+  {height, weight}: {height?: number; weight?: number},
+) {
+  if (!height && !weight) return null;
+
+  const scored = sizes
+    .filter((size) => (!height || size.height) && (!weight || size.weight))
+    .map((size) => ({
+      size,
+      score:
+        getDistance(height, size.height) + getDistance(weight, size.weight) * 2,
+    }))
+    .sort((a, b) => a.score - b.score);
+
+  if (!scored.length) return null;
+
+  return {size: scored[0].size, exact: scored[0].score === 0};
+}
+
+function getDistance(value?: number, range?: [number, number]) {
+  if (!value || !range) return 0;
+  const [min, max] = range;
+
+  return Math.max(0, min - value, value - max);
+}
+
+function parseRange(value: unknown): [number, number] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const [min, max] = (value as unknown[]).map(Number);
+
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : undefined;
+}
+
+function getMetaobjectFields(fields: MetaobjectField[] = []) {
+  return Object.fromEntries(
+    fields.map(({key, value}) => [key, value ?? undefined]),
+  ) as Record<string, string | undefined>;
+}
+
+function parseJSON<T>(value: string) {
+  try {
+    return JSON.parse(value) as T;
+  } catch (_) {
+    return null;
+  }
+}
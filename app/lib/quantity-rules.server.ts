@@ -0,0 +1,121 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import {flattenConnection} from '@shopify/hydrogen';
+import type {
+  CartLineInput,
+  CartLineUpdateInput,
+  CartUserError,
+} from '@shopify/hydrogen/storefront-api-types';
+
+import type {QuantityRuleVariantFragment} from 'storefrontapi.generated';
+
+import {getQuantityRule, getQuantityRuleError} from './quantity-rules';
+
+type CurrentCart = Awaited<ReturnType<AppLoadContext['cart']['get']>>;
+
+/**
+ * Checks the quantities added or updated lines would leave in the cart
+ * against the quantity rules of the variants. Lines of the same variant are
+ * counted together, as the cart merges them. Takes the cart the caller
+ * already fetched, so it can be sent back with the errors.
+ * @returns errors shaped like the cart's `userErrors`, empty when valid
+ */
+export async function getQuantityRuleErrors(
+  {storefront}: Pick<AppLoadContext, 'storefront'>,
+  currentCart: CurrentCart,
+  lines: Array<CartLineInput | CartLineUpdateInput>,
+): Promise<CartUserError[]> {
+  const cartLines = currentCart ? flattenConnection(currentCart.lines) : [];
+
+  const quantities = new Map(
+    cartLines.map(({id, quantity, merchandise}) => [
+      id,
+      {merchandiseId: merchandise.id, quantity},
+    ]),
+  );
+  // Index of the input line that changed each variant, for the error field
+  const changedVariants = new Map<string, number>();
+
+  lines.forEach((line, index) => {
+    if (!('id' in line)) {
+      quantities.set(`new-${index}`, {
+        merchandiseId: line.merchandiseId,
+        quantity: line.quantity ?? 1,
+      });
+      changedVariants.set(line.merchandiseId, index);
+      return;
+    }
+
+    const current = quantities.get(line.id);
+    // e.g. an update of the line's attributes only
+    if (!current || (!line.quantity && !line.merchandiseId)) return;
+
+    current.merchandiseId = line.merchandiseId ?? current.merchandiseId;
+    current.quantity = line.quantity ?? current.quantity;
+    changedVariants.set(current.merchandiseId, index);
+  });
+
+  if (!changedVariants.size) return [];
+
+  const totals = new Map<string, number>();
+  for (const {merchandiseId, quantity} of quantities.values()) {
+    totals.set(merchandiseId, (totals.get(merchandiseId) ?? 0) + quantity);
+  }
+
+  const {nodes} = await storefront.query(QUANTITY_RULE_VARIANTS_QUERY, {
+    variables: {
+      ids: Array.from(changedVariants.keys()),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  const errors: CartUserError[] = [];
+
+  for (const node of nodes) {
+    if (node?.__typename !== 'ProductVariant') continue;
+    const variant = node as QuantityRuleVariantFragment;
+
+    const error = getQuantityRuleError(
+      totals.get(variant.id) ?? 0,
+      getQuantityRule(variant),
+      variant.product.title,
+    );
+
+    if (error) {
+      errors.push({
+        ...error,
+        field: ['lines', String(changedVariants.get(variant.id)), 'quantity'],
+      });
+    }
+  }
+
+  return errors;
+}
+
+const QUANTITY_RULE_VARIANTS_QUERY = `#graphql
+  query QuantityRuleVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...QuantityRuleVariant
+      }
+    }
+  }
+
+  fragment QuantityRuleVariant on ProductVariant {
+    id
+    quantityRule {
+      minimum
+      maximum
+      increment
+    }
+    product {
+      title
+    }
+  }
+` as const;
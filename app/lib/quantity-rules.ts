@@ -0,0 +1,106 @@
+import type {
+  CartErrorCode,
+  QuantityPriceBreak,
+  QuantityRule,
+} from '@shopify/hydrogen/storefront-api-types';
+
+export type NormalizedQuantityRule = {
+  minimum: number;
+  maximum: number | null;
+  increment: number;
+};
+
+export const DEFAULT_QUANTITY_RULE: NormalizedQuantityRule = Object.freeze({
+  minimum: 1,
+  maximum: null,
+  increment: 1,
+});
+
+/**
+ * Quantity rule of a variant, with the defaults for variants without one
+ * or when the rule wasn't queried
+ */
+export function getQuantityRule(
+  variant?: {
+    quantityRule?: Partial<
+      Pick<QuantityRule, 'minimum' | 'maximum' | 'increment'>
+    > | null;
+  } | null,
+): NormalizedQuantityRule {
+  const rule = variant?.quantityRule;
+
+  return {
+    minimum: Math.max(1, rule?.minimum ?? DEFAULT_QUANTITY_RULE.minimum),
+    maximum: rule?.maximum ?? null,
+    increment: Math.max(1, rule?.increment ?? DEFAULT_QUANTITY_RULE.increment),
+  };
+}
+
+/**
+ * Why a quantity breaks the rule, or `null` when it's allowed. Removing all
+ * the items, i.e. a quantity of 0, is always allowed.
+ */
+export function getQuantityRuleError(
+  quantity: number,
+  rule: NormalizedQuantityRule,
+  title = 'this item',
+): {code: CartErrorCode; message: string} | null {
+  if (quantity === 0) return null;
+
+  if (quantity < rule.minimum) {
+    return {
+      code: 'MINIMUM_NOT_MET',
+      message: `The minimum quantity for ${title} is ${rule.minimum}.`,
+    };
+  }
+
+  if (rule.maximum !== null && quantity > rule.maximum) {
+    return {
+      code: 'MAXIMUM_EXCEEDED',
+      message: `The maximum quantity for ${title} is ${rule.maximum}.`,
+    };
+  }
+
+  if (quantity % rule.increment !== 0) {
+    return {
+      code: 'INVALID_INCREMENT',
+      message: `${capitalize(title)} is sold in multiples of ${
+        rule.increment
+      }.`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The closest allowed quantity one step up or down, clamped to the rule
+ */
+export function stepQuantity(
+  quantity: number,
+  rule: NormalizedQuantityRule,
+  direction: 1 | -1,
+) {
+  const {minimum, maximum, increment} = rule;
+  const stepped =
+    direction === 1
+      ? Math.floor(quantity / increment) * increment + increment
+      : Math.ceil(quantity / increment) * increment - increment;
+
+  return Math.min(Math.max(stepped, minimum), maximum ?? Infinity);
+}
+
+/**
+ * The volume price break reached at a quantity, if any
+ */
+export function getPriceBreak<
+  T extends Pick<QuantityPriceBreak, 'minimumQuantity'>,
+>(priceBreaks: T[], quantity: number) {
+  return priceBreaks
+    .filter(({minimumQuantity}) => minimumQuantity <= quantity)
+    .sort((a, b) => b.minimumQuantity - a.minimumQuantity)[0];
+}
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
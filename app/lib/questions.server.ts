@@ -0,0 +1,194 @@
+import {
+  createKVOrMemoryStorage,
+  listKeys,
+  readJSON,
+  writeJSON,
+  type KeyValueStore,
+} from './kv.server';
+import {
+  isAnsweredQuestion,
+  type ProductQuestion,
+  type QuestionStatus,
+} from './questions';
+
+const KV_KEY_PREFIX = 'questions:';
+const KV_PENDING_KEY_PREFIX = 'questions-pending:';
+const KV_ANSWERED_KEY_PREFIX = 'questions-answered:';
+
+export type QuestionModeration = {
+  status: QuestionStatus;
+  answer?: string | null;
+};
+
+/**
+ * Where product questions and their answers are kept. Swap it in
+ * `server.ts`, e.g. for a database or a helpdesk API.
+ */
+export interface QuestionStorage {
+  add(question: ProductQuestion): Promise<void>;
+  /**
+   * All the questions of a product whatever their status, newest first
+   */
+  list(productId: string): Promise<ProductQuestion[]>;
+  /**
+   * The approved and answered questions of a product, newest first, as shown
+   * on the product page
+   */
+  listAnswered(productId: string): Promise<ProductQuestion[]>;
+  /**
+   * The moderation queue: questions of all products waiting for a decision,
+   * oldest first
+   */
+  listPending(): Promise<ProductQuestion[]>;
+  /**
+   * Approves, rejects or answers a question, returns `null` when it doesn't
+   * exist. Decided questions leave the moderation queue.
+   */
+  moderate(
+    productId: string,
+    questionId: string,
+    moderation: QuestionModeration,
+  ): Promise<ProductQuestion | null>;
+}
+
+/**
+ * Keeps questions in the `QUESTIONS` KV namespace
+ */
+export function createQuestionStorage(env: Env): QuestionStorage {
+  return createKVOrMemoryStorage(
+    env.QUESTIONS,
+    createKVQuestionStorage,
+    createMemoryQuestionStorage,
+  );
+}
+
+const memoryQuestions = new Map<string, ProductQuestion[]>();
+
+export function createMemoryQuestionStorage(
+  questions = memoryQuestions,
+): QuestionStorage {
+  return {
+    async add(question) {
+      const current = questions.get(question.productId) ?? [];
+      questions.set(question.productId, [question, ...current]);
+    },
+    async list(productId) {
+      return questions.get(productId) ?? [];
+    },
+    async listAnswered(productId) {
+      return (questions.get(productId) ?? []).filter(isAnsweredQuestion);
+    },
+    async listPending() {
+      return Array.from(questions.values())
+        .flat()
+        .filter(({status}) => status === 'pending')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async moderate(productId, questionId, moderation) {
+      const question = (questions.get(productId) ?? []).find(
+        ({id}) => id === questionId,
+      );
+      if (!question) return null;
+
+      return Object.assign(question, applyModeration(question, moderation));
+    },
+  };
+}
+
+/**
+ * One KV entry per question, so concurrent submissions never overwrite each
+ * other, under a key prefixed with its product. Each pending question also
+ * has an entry in the moderation queue, holding its product id, and each
+ * answered one a copy under `questions-answered:<productId>:` so product
+ * pages never read the unanswered ones.
+ */
+export function createKVQuestionStorage(kv: KeyValueStore): QuestionStorage {
+  const getKey = (productId: string, questionId: string) =>
+    `${KV_KEY_PREFIX}${productId}:${questionId}`;
+  const getAnsweredKey = (productId: string, questionId: string) =>
+    `${KV_ANSWERED_KEY_PREFIX}${productId}:${questionId}`;
+
+  const getQuestions = async (keys: string[]) =>
+    (
+      await Promise.all(
+        keys.map((key) => readJSON<ProductQuestion | null>(kv, key, null)),
+      )
+    ).filter((question): question is ProductQuestion => question !== null);
+
+  return {
+    async add(question) {
+      await writeJSON(kv, getKey(question.productId, question.id), question);
+
+      if (question.status === 'pending') {
+        await kv.put(KV_PENDING_KEY_PREFIX + question.id, question.productId);
+      }
+    },
+    async list(productId) {
+      const keys = await listKeys(kv, `${KV_KEY_PREFIX}${productId}:`);
+
+      return (await getQuestions(keys)).sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt),
+      );
+    },
+    async listAnswered(productId) {
+      const keys = await listKeys(kv, `${KV_ANSWERED_KEY_PREFIX}${productId}:`);
+
+      return (await getQuestions(keys)).sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt),
+      );
+    },
+    async listPending() {
+      const pendingKeys = await listKeys(kv, KV_PENDING_KEY_PREFIX);
+      const keys = await Promise.all(
+        pendingKeys.map(async (pendingKey) => {
+          const productId = await kv.get(pendingKey);
+          const questionId = pendingKey.slice(KV_PENDING_KEY_PREFIX.length);
+
+          return productId ? getKey(productId, questionId) : null;
+        }),
+      );
+
+      return (await getQuestions(keys.filter((key): key is string => !!key)))
+        .filter(({status}) => status === 'pending')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    async moderate(productId, questionId, moderation) {
+      const key = getKey(productId, questionId);
+      const question = await readJSON<ProductQuestion | null>(kv, key, null);
+      if (!question) return null;
+
+      Object.assign(question, applyModeration(question, moderation));
+      await writeJSON(kv, key, question);
+
+      // Decided questions leave the queue, ones sent back to pending rejoin it
+      if (question.status === 'pending') {
+        await kv.put(KV_PENDING_KEY_PREFIX + questionId, productId);
+      } else {
+        await kv.delete(KV_PENDING_KEY_PREFIX + questionId);
+      }
+
+      if (isAnsweredQuestion(question)) {
+        await writeJSON(kv, getAnsweredKey(productId, questionId), question);
+      } else {
+        await kv.delete(getAnsweredKey(productId, questionId));
+      }
+
+      return question;
+    },
+  };
+}
+
+function applyModeration(
+  question: ProductQuestion,
+  {status, answer}: QuestionModeration,
+): Pick<ProductQuestion, 'status' | 'answer' | 'answeredAt'> {
+  if (answer === undefined || answer === question.answer) {
+    return {status, answer: question.answer, answeredAt: question.answeredAt};
+  }
+
+  return {
+    status,
+    answer: answer || null,
+    answeredAt: answer ? new Date().toISOString() : null,
+  };
+}
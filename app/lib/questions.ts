@@ -0,0 +1,27 @@
+export const QUESTION_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export const MAX_QUESTION_LENGTH = 500;
+export const MAX_ANSWER_LENGTH = 2000;
+
+export type QuestionStatus = (typeof QUESTION_STATUSES)[number];
+
+export type ProductQuestion = {
+  id: string;
+  productId: string;
+  question: string;
+  author: string;
+  createdAt: string;
+  status: QuestionStatus;
+  answer: string | null;
+  answeredAt: string | null;
+};
+
+export function isQuestionStatus(value: unknown): value is QuestionStatus {
+  return QUESTION_STATUSES.includes(value as QuestionStatus);
+}
+
+/**
+ * Whether a question can show on the storefront: approved and answered
+ */
+export function isAnsweredQuestion(question: ProductQuestion) {
+  return question.status === 'approved' && Boolean(question.answer);
+}
@@ -0,0 +1,44 @@
+import type {ShouldRevalidateFunction} from '@remix-run/react';
+
+/**
+ * The open quick view is kept in the URL, e.g. `?quickView=<handle>`, next to
+ * the filter and sort params of the grid, so the back button closes it.
+ */
+export const QUICK_VIEW_PARAM = 'quickView';
+
+export function getQuickViewSearch(search: string, handle: string | null) {
+  const params = new URLSearchParams(search);
+
+  if (handle) {
+    params.set(QUICK_VIEW_PARAM, handle);
+  } else {
+    params.delete(QUICK_VIEW_PARAM);
+  }
+
+  const value = params.toString();
+  return value ? `?${value}` : '';
+}
+
+/**
+ * Opening or closing the quick view only changes its search param, so grid
+ * routes don't need to load their products again.
+ */
+export const quickViewShouldRevalidate: ShouldRevalidateFunction = ({
+  formMethod,
+  currentUrl,
+  nextUrl,
+  defaultShouldRevalidate,
+}) => {
+  if (
+    !formMethod &&
+    currentUrl.pathname === nextUrl.pathname &&
+    getQuickViewSearch(currentUrl.search, null) ===
+      getQuickViewSearch(nextUrl.search, null) &&
+    currentUrl.searchParams.get(QUICK_VIEW_PARAM) !==
+      nextUrl.searchParams.get(QUICK_VIEW_PARAM)
+  ) {
+    return false;
+  }
+
+  return defaultShouldRevalidate;
+};
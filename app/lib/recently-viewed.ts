@@ -0,0 +1,55 @@
+export const RECENTLY_VIEWED_STORAGE_KEY = 'recently-viewed';
+export const RECENTLY_VIEWED_MAX_ITEMS = 12;
+
+export type RecentlyViewedEntry = {
+  id: string;
+  handle: string;
+};
+
+/**
+ * Reads the recently viewed products from localStorage, most recent first.
+ * Returns an empty list on the server or when storage is unavailable.
+ */
+export function getRecentlyViewed(): RecentlyViewedEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const value = JSON.parse(
+      window.localStorage.getItem(RECENTLY_VIEWED_STORAGE_KEY) ?? '[]',
+    );
+    if (!Array.isArray(value)) return [];
+
+    return (value as Array<Partial<RecentlyViewedEntry> | null>)
+      .filter(
+        (entry): entry is RecentlyViewedEntry =>
+          typeof entry?.id === 'string' &&
+          entry.id.startsWith('gid://shopify/Product/') &&
+          typeof entry?.handle === 'string',
+      )
+      .slice(0, RECENTLY_VIEWED_MAX_ITEMS);
+  } catch (_) {
+    return [];
+  }
+}
+
+/**
+ * Moves a product to the front of the recently viewed list, dropping any
+ * earlier entry for it and the oldest entries past the cap.
+ */
+export function recordRecentlyViewed(entry: RecentlyViewedEntry) {
+  if (typeof window === 'undefined') return;
+
+  const entries = [
+    {id: entry.id, handle: entry.handle},
+    ...getRecentlyViewed().filter(({id}) => id !== entry.id),
+  ].slice(0, RECENTLY_VIEWED_MAX_ITEMS);
+
+  try {
+    window.localStorage.setItem(
+      RECENTLY_VIEWED_STORAGE_KEY,
+      JSON.stringify(entries),
+    );
+  } catch (_) {
+    // Storage can be full or disabled, e.g. in private browsing
+  }
+}
@@ -0,0 +1,325 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+import type {CustomerOrderProductsQuery} from 'customer-accountapi.generated';
+import {CUSTOMER_ORDER_PRODUCTS_QUERY} from '~/graphql/customer-account/CustomerOrderProductsQuery';
+
+import {
+  createKVOrMemoryStorage,
+  listKeys,
+  readJSON,
+  writeJSON,
+  type KeyValueStore,
+} from './kv.server';
+import {
+  getReviewSummary,
+  parseRating,
+  parseRatingMetafields,
+  REVIEWS_PAGE_SIZE,
+  type ProductReview,
+  type ReviewStatus,
+  type ReviewSummary,
+} from './reviews';
+
+const KV_KEY_PREFIX = 'reviews:';
+const KV_SUMMARY_KEY_PREFIX = 'review-summaries:';
+const VERIFIED_ORDERS_PAGE_SIZE = 50;
+
+/**
+ * A review with the customer who wrote it, which is never sent to the browser
+ */
+export type StoredReview = ProductReview & {customerId: string};
+
+/**
+ * Where the reviews written on the storefront are kept. Swap it in
+ * `server.ts`, e.g. for a database or the API of a review app.
+ */
+export interface ReviewStorage {
+  /**
+   * Saves a review, returns `false` when the customer already reviewed the product
+   */
+  add(review: StoredReview): Promise<boolean>;
+  /**
+   * All the reviews of a product whatever their status, newest first
+   */
+  list(productId: string): Promise<StoredReview[]>;
+  /**
+   * Publishes or rejects a review, returns `null` when it doesn't exist
+   */
+  setStatus(
+    productId: string,
+    reviewId: string,
+    status: ReviewStatus,
+  ): Promise<StoredReview | null>;
+  /**
+   * Summary of the published reviews of a product, `null` without any. Kept
+   * up to date on moderation so product grids read a single entry per product.
+   */
+  getSummary(productId: string): Promise<ReviewSummary | null>;
+}
+
+/**
+ * Keeps reviews in the `REVIEWS` KV namespace
+ */
+export function createReviewStorage(env: Env): ReviewStorage {
+  return createKVOrMemoryStorage(
+    env.REVIEWS,
+    createKVReviewStorage,
+    createMemoryReviewStorage,
+  );
+}
+
+const memoryReviews = new Map<string, StoredReview[]>();
+
+export function createMemoryReviewStorage(
+  reviews = memoryReviews,
+): ReviewStorage {
+  return {
+    async add(review) {
+      const current = reviews.get(review.productId) ?? [];
+      if (current.some(({customerId}) => customerId === review.customerId)) {
+        return false;
+      }
+
+      reviews.set(review.productId, [review, ...current]);
+      return true;
+    },
+    async list(productId) {
+      return reviews.get(productId) ?? [];
+    },
+    async setStatus(productId, reviewId, status) {
+      const current = reviews.get(productId) ?? [];
+      const review = current.find(({id}) => id === reviewId);
+      if (!review) return null;
+
+      review.status = status;
+      return review;
+    },
+    async getSummary(productId) {
+      return getPublishedSummary(reviews.get(productId) ?? []);
+    },
+  };
+}
+
+/**
+ * One KV entry per review, under `reviews:<productId>:<customerId>`, so
+ * concurrent reviews never overwrite each other and a customer can only
+ * review a product once.
+ */
+export function createKVReviewStorage(kv: KeyValueStore): ReviewStorage {
+  const getPrefix = (productId: string) => `${KV_KEY_PREFIX}${productId}:`;
+  const getKey = ({productId, customerId}: StoredReview) =>
+    getPrefix(productId) + customerId;
+
+  async function list(productId: string) {
+    const keys = await listKeys(kv, getPrefix(productId));
+    const reviews = await Promise.all(
+      keys.map((key) => readJSON<StoredReview | null>(kv, key, null)),
+    );
+
+    return reviews
+      .filter((review): review is StoredReview => Boolean(review))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  return {
+    async add(review) {
+      if (await kv.get(getKey(review))) return false;
+
+      await writeJSON(kv, getKey(review), review);
+      return true;
+    },
+    list,
+    async setStatus(productId, reviewId, status) {
+      const reviews = await list(productId);
+      const review = reviews.find(({id}) => id === reviewId);
+      if (!review) return null;
+
+      review.status = status;
+      await writeJSON(kv, getKey(review), review);
+
+      // From the list read above, a listing right after the write may miss it
+      const summary = getPublishedSummary(reviews);
+      await (summary
+        ? writeJSON(kv, KV_SUMMARY_KEY_PREFIX + productId, summary)
+        : kv.delete(KV_SUMMARY_KEY_PREFIX + productId));
+
+      return review;
+    },
+    getSummary(productId) {
+      return readJSON<ReviewSummary | null>(
+        kv,
+        KV_SUMMARY_KEY_PREFIX + productId,
+        null,
+      );
+    },
+  };
+}
+
+function getPublishedSummary(reviews: StoredReview[]) {
+  return getReviewSummary(reviews.filter(({status}) => status === 'published'));
+}
+
+/**
+ * Adds the summary of their storefront reviews to a page of products, for
+ * the star ratings of the product cards. The `reviews.rating` metafields
+ * remain the fallback for products without any.
+ */
+export async function withReviewSummaries<Product extends {id: string}>(
+  reviews: ReviewStorage,
+  products: Product[],
+) {
+  const summaries = await Promise.all(
+    products.map(({id}) => reviews.getSummary(id)),
+  );
+
+  return products.map((product, index) => ({
+    ...product,
+    reviewSummary: summaries[index],
+  }));
+}
+
+/**
+ * Finds the logged in customer's purchase of a product in their order
+ * history, newest orders first, reading the line items along with the
+ * orders. Only customers who bought the product may review it.
+ * @returns the customer and the order, or `null` when they didn't buy it
+ */
+export async function getVerifiedPurchase(
+  customerAccount: AppLoadContext['customerAccount'],
+  productId: string,
+) {
+  let after: string | undefined;
+
+  do {
+    const customer = await getCustomerOrderProducts(customerAccount, after);
+    if (!customer) return null;
+
+    const order = customer.orders.nodes.find(({lineItems}) =>
+      lineItems.nodes.some((lineItem) => lineItem.productId === productId),
+    );
+
+    if (order) {
+      return {
+        customerId: customer.id,
+        author: getAuthorName(customer),
+        orderId: order.id,
+      };
+    }
+
+    const {hasNextPage, endCursor} = customer.orders.pageInfo;
+    after = hasNextPage ? endCursor ?? undefined : undefined;
+  } while (after);
+
+  return null;
+}
+
+async function getCustomerOrderProducts(
+  customerAccount: AppLoadContext['customerAccount'],
+  after?: string,
+): Promise<CustomerOrderProductsQuery['customer'] | null> {
+  const {data, errors} = await customerAccount.query(
+    CUSTOMER_ORDER_PRODUCTS_QUERY,
+    {variables: {first: VERIFIED_ORDERS_PAGE_SIZE, after}},
+  );
+
+  return errors?.length ? null : data?.customer ?? null;
+}
+
+/**
+ * A page of the published reviews of a product, with their summary. Reviews
+ * imported into the `custom.reviews` JSON metafield are listed after the ones
+ * written on the storefront. Without any, the summary falls back to the
+ * `reviews.rating` metafields.
+ */
+export async function getProductReviews(
+  reviews: ReviewStorage,
+  product: {
+    id: string;
+    reviews?: {value: string} | null;
+    rating?: {value: string} | null;
+    ratingCount?: {value: string} | null;
+  },
+  page = 1,
+) {
+  const storedReviews = await reviews.list(product.id);
+  const published = [
+    ...storedReviews.map(toProductReview),
+    ...parseMetafieldReviews(product.id, product.reviews?.value),
+  ].filter(({status}) => status === 'published');
+
+  const pageCount = Math.max(
+    1,
+    Math.ceil(published.length / REVIEWS_PAGE_SIZE),
+  );
+  const currentPage = Math.min(Math.max(1, page), pageCount);
+
+  return {
+    reviews: published.slice(
+      (currentPage - 1) * REVIEWS_PAGE_SIZE,
+      currentPage * REVIEWS_PAGE_SIZE,
+    ),
+    summary:
+      getReviewSummary(published) ??
+      parseRatingMetafields(product.rating?.value, product.ratingCount?.value),
+    page: currentPage,
+    pageCount,
+  };
+}
+
+export function toProductReview({
+  customerId: _,
+  ...review
+}: StoredReview): ProductReview {
+  return review;
+}
+
+/**
+ * First name and last initial, e.g. "Jane D."
+ */
+function getAuthorName({
+  firstName,
+  lastName,
+}: {
+  firstName?: string | null;
+  lastName?: string | null;
+}) {
+  const initial = lastName?.trim().charAt(0);
+  const name = [firstName?.trim(), initial && `${initial}.`]
+    .filter(Boolean)
+    .join(' ');
+
+  return name || 'Verified buyer';
+}
+
+/**
+ * Reviews imported from another platform into a JSON metafield, e.g.
+ * `[{"rating": 5, "title": "Great", "body": "…", "author": "Jane D.", "createdAt": "2024-01-31"}]`
+ */
+function parseMetafieldReviews(
+  productId: string,
+  value?: string | null,
+): ProductReview[] {
+  if (!value) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch (_) {
+    return [];
+  }
+
+  if (!Array.isArray(entries)) return [];
+
+  return (entries as Array<Partial<Record<keyof ProductReview, unknown>>>)
+    .map((entry, index) => ({
+      id: `${productId}/metafield/${index}`,
+      productId,
+      rating: parseRating(entry.rating) ?? 0,
+      title: typeof entry.title === 'string' ? entry.title : '',
+      body: typeof entry.body === 'string' ? entry.body : '',
+      author: typeof entry.author === 'string' ? entry.author : 'Customer',
+      createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : '',
+      status: 'published' as const,
+    }))
+    .filter(({rating, body}) => rating > 0 && body);
+}
@@ -0,0 +1,85 @@
+export const REVIEW_STATUSES = ['pending', 'published', 'rejected'] as const;
+export const REVIEWS_PAGE_SIZE = 5;
+export const REVIEWS_PAGE_PARAM = 'reviews';
+export const MAX_RATING = 5;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export type ProductReview = {
+  id: string;
+  productId: string;
+  rating: number;
+  title: string;
+  body: string;
+  author: string;
+  createdAt: string;
+  status: ReviewStatus;
+};
+
+export type ReviewSummary = {
+  rating: number;
+  count: number;
+};
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return REVIEW_STATUSES.includes(value as ReviewStatus);
+}
+
+/**
+ * Whole star rating between 1 and 5, or `null` when the value isn't one
+ */
+export function parseRating(value: unknown) {
+  const rating = Number(value);
+
+  return Number.isInteger(rating) && rating >= 1 && rating <= MAX_RATING
+    ? rating
+    : null;
+}
+
+/**
+ * Average rating of the reviews, rounded to one decimal
+ */
+export function getReviewSummary(
+  reviews: Array<Pick<ProductReview, 'rating'>>,
+): ReviewSummary | null {
+  if (!reviews.length) return null;
+
+  const total = reviews.reduce((sum, {rating}) => sum + rating, 0);
+
+  return {
+    rating: Math.round((total / reviews.length) * 10) / 10,
+    count: reviews.length,
+  };
+}
+
+/**
+ * Reads the standard `reviews.rating` and `reviews.rating_count` product
+ * metafields, which review apps keep up to date, as a summary out of 5
+ * @example
+ * ```js
+ * parseRatingMetafields('{"value": "4.5", "scale_min": "1.0", "scale_max": "5.0"}', '12');
+ * // {rating: 4.5, count: 12}
+ * ```
+ */
+export function parseRatingMetafields(
+  rating?: string | null,
+  ratingCount?: string | null,
+): ReviewSummary | null {
+  if (!rating) return null;
+
+  try {
+    const {value, scale_max} = JSON.parse(rating) as {
+      value: string;
+      scale_max?: string;
+    };
+    const scale = parseFloat(scale_max ?? '') || MAX_RATING;
+    const count = parseInt(ratingCount ?? '', 10) || 0;
+    const average = (parseFloat(value) / scale) * MAX_RATING;
+
+    if (Number.isNaN(average) || !count) return null;
+
+    return {rating: Math.round(average * 10) / 10, count};
+  } catch (_) {
+    return null;
+  }
+}
@@ -0,0 +1,246 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+import type {AttributeInput} from '@shopify/hydrogen/storefront-api-types';
+
+import type {SavedForLaterVariantFragment} from 'storefrontapi.generated';
+
+import {getCartLineKey} from './cart-permalink';
+import {
+  getCustomerJsonMetafield,
+  setCustomerJsonMetafield,
+} from './customer-metafields.server';
+import {
+  deleteGuestList,
+  getGuestList,
+  setGuestList,
+} from './guest-lists.server';
+import type {Storefront} from './type';
+import {isVariantId} from './utils';
+
+export const SAVED_FOR_LATER_INTENTS = ['save', 'restore', 'remove'] as const;
+
+export const SAVED_FOR_LATER_METAFIELD = {
+  namespace: 'custom',
+  key: 'saved_for_later',
+};
+const MAX_SAVED_ITEMS = 50;
+
+export type SavedForLaterIntent = (typeof SAVED_FOR_LATER_INTENTS)[number];
+
+export type SavedItem = {
+  merchandiseId: string;
+  quantity: number;
+  sellingPlanId?: string;
+  attributes: AttributeInput[];
+};
+
+export type SavedLine = SavedItem & {
+  merchandise: SavedForLaterVariantFragment | null;
+};
+
+/**
+ * Returns the saved cart lines. Guests keep them in the guest list storage,
+ * logged in customers in a `custom.saved_for_later` JSON metafield.
+ */
+export async function getSavedForLater(context: AppLoadContext) {
+  const {customerAccount} = context;
+
+  if (await customerAccount.isLoggedIn()) {
+    const {value} = await getCustomerJsonMetafield<SavedItem[]>(
+      customerAccount,
+      SAVED_FOR_LATER_METAFIELD,
+    );
+    return parseSavedItems(value);
+  }
+
+  return parseSavedItems(await getGuestList(context, 'saved-for-later'));
+}
+
+/**
+ * Applies `update` to the saved items and persists the result wherever the
+ * current shopper keeps them.
+ */
+export async function updateSavedForLater(
+  context: AppLoadContext,
+  update: (items: SavedItem[]) => SavedItem[],
+) {
+  const {customerAccount} = context;
+
+  if (await customerAccount.isLoggedIn()) {
+    const {customerId, value} = await getCustomerJsonMetafield<SavedItem[]>(
+      customerAccount,
+      SAVED_FOR_LATER_METAFIELD,
+    );
+    const items = parseSavedItems(update(parseSavedItems(value)));
+
+    await setCustomerJsonMetafield(
+      customerAccount,
+      customerId,
+      SAVED_FOR_LATER_METAFIELD,
+      items,
+    );
+    return items;
+  }
+
+  const items = parseSavedItems(
+    update(parseSavedItems(await getGuestList(context, 'saved-for-later'))),
+  );
+  await setGuestList(context, 'saved-for-later', items);
+  return items;
+}
+
+/**
+ * Adds an item in front of the list. Saving a line that is already saved,
+ * same variant, selling plan and attributes, adds up the quantities.
+ */
+export function addSavedItem(items: SavedItem[], item: SavedItem) {
+  const key = getCartLineKey(item);
+  const existing = items.find((savedItem) => getCartLineKey(savedItem) === key);
+
+  return [
+    {
+      ...item,
+      quantity: item.quantity + (existing?.quantity ?? 0),
+    },
+    ...items.filter((savedItem) => getCartLineKey(savedItem) !== key),
+  ];
+}
+
+/**
+ * Removes the item with the given `getCartLineKey` key
+ */
+export function removeSavedItem(items: SavedItem[], key: string) {
+  return items.filter((item) => getCartLineKey(item) !== key);
+}
+
+/**
+ * Moves the guest's saved items into the customer metafield. Called right
+ * after login, the guest copy is deleted once merged.
+ */
+export async function mergeGuestSavedForLater(context: AppLoadContext) {
+  const {customerAccount} = context;
+  const guestItems = parseSavedItems(
+    await getGuestList(context, 'saved-for-later'),
+  );
+
+  if (!guestItems.length) return;
+
+  const {customerId, value} = await getCustomerJsonMetafield<SavedItem[]>(
+    customerAccount,
+    SAVED_FOR_LATER_METAFIELD,
+  );
+
+  const items = parseSavedItems(
+    guestItems.reduceRight(addSavedItem, parseSavedItems(value)),
+  );
+
+  await setCustomerJsonMetafield(
+    customerAccount,
+    customerId,
+    SAVED_FOR_LATER_METAFIELD,
+    items,
+  );
+
+  await deleteGuestList(context, 'saved-for-later');
+}
+
+/**
+ * Loads the saved variants from the Storefront API. Variants that were
+ * deleted come back with a `null` merchandise so they can still be removed.
+ */
+export async function getSavedLines(
+  storefront: Storefront,
+  items: SavedItem[],
+): Promise<SavedLine[]> {
+  if (!items.length) return [];
+
+  const {nodes} = await storefront.query(SAVED_FOR_LATER_VARIANTS_QUERY, {
+    variables: {
+      ids: items.map(({merchandiseId}) => merchandiseId),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  return items.map((item, index) => {
+    const node = nodes[index];
+
+    return {
+      ...item,
+      merchandise:
+        node?.__typename === 'ProductVariant'
+          ? (node as SavedForLaterVariantFragment)
+          : null,
+    };
+  });
+}
+
+export function parseSavedItems(value: unknown): SavedItem[] {
+  if (!Array.isArray(value)) return [];
+
+  const items: SavedItem[] = [];
+  for (const item of value as Array<Partial<SavedItem> | null>) {
+    if (!isVariantId(item?.merchandiseId)) continue;
+
+    const savedItem: SavedItem = {
+      merchandiseId: item.merchandiseId,
+      quantity: Math.max(1, Math.floor(Number(item.quantity)) || 1),
+      ...(typeof item.sellingPlanId === 'string'
+        ? {sellingPlanId: item.sellingPlanId}
+        : {}),
+      attributes: (Array.isArray(item.attributes) ? item.attributes : [])
+        .filter(
+          (attribute) =>
+            typeof attribute?.key === 'string' &&
+            typeof attribute?.value === 'string',
+        )
+        .map(({key, value}) => ({key, value})),
+    };
+    const key = getCartLineKey(savedItem);
+
+    if (items.every((other) => getCartLineKey(other) !== key)) {
+      items.push(savedItem);
+    }
+  }
+
+  return items.slice(0, MAX_SAVED_ITEMS);
+}
+
+const SAVED_FOR_LATER_VARIANTS_QUERY = `#graphql
+  query SavedForLaterVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...SavedForLaterVariant
+      }
+    }
+  }
+  fragment SavedForLaterVariant on ProductVariant {
+    id
+    title
+    availableForSale
+    price {
+      amount
+      currencyCode
+    }
+    image {
+      id
+      url
+      altText
+      width
+      height
+    }
+    selectedOptions {
+      name
+      value
+    }
+    product {
+      id
+      title
+      handle
+    }
+  }
+` as const;
@@ -0,0 +1,76 @@
+import type {MoneyV2} from '@shopify/hydrogen/storefront-api-types';
+import type {
+  SubscriptionContractSubscriptionStatus,
+  SubscriptionInterval,
+} from '@shopify/hydrogen/customer-account-api-types';
+
+import type {ProductVariantFragment} from 'storefrontapi.generated';
+
+/**
+ * Price of a variant bought with a selling plan, with the plan's price
+ * adjustments applied. Falls back to the one-time price without a plan.
+ */
+export function getSellingPlanPrice(
+  variant: Pick<ProductVariantFragment, 'price' | 'sellingPlanAllocations'>,
+  sellingPlanId: string | null,
+): MoneyV2 {
+  const allocation = sellingPlanId
+    ? variant.sellingPlanAllocations.nodes.find(
+        ({sellingPlan}) => sellingPlan.id === sellingPlanId,
+      )
+    : undefined;
+
+  return allocation?.priceAdjustments[0]?.price ?? variant.price;
+}
+
+export function isSellingPlanAvailable(
+  variant: Pick<ProductVariantFragment, 'sellingPlanAllocations'>,
+  sellingPlanId: string,
+) {
+  return variant.sellingPlanAllocations.nodes.some(
+    ({sellingPlan}) => sellingPlan.id === sellingPlanId,
+  );
+}
+
+/**
+ * Percentage saved by subscribing rather than buying once, rounded down so
+ * the label never promises more than the plan gives.
+ */
+export function getSellingPlanSavings(
+  variant: Pick<ProductVariantFragment, 'price' | 'sellingPlanAllocations'>,
+  sellingPlanId: string,
+) {
+  const price = Number(variant.price.amount);
+  const planPrice = Number(getSellingPlanPrice(variant, sellingPlanId).amount);
+
+  if (!price || planPrice >= price) return 0;
+
+  return Math.floor(((price - planPrice) / price) * 100);
+}
+
+/**
+ * e.g. "every month" or "every 2 weeks"
+ */
+export function formatSubscriptionInterval(
+  interval: SubscriptionInterval,
+  count = 1,
+) {
+  const unit = interval.toLowerCase();
+
+  return count === 1 ? `every ${unit}` : `every ${count} ${unit}s`;
+}
+
+export function subscriptionStatusMessage(
+  status: SubscriptionContractSubscriptionStatus,
+) {
+  const translations: Record<SubscriptionContractSubscriptionStatus, string> = {
+    ACTIVE: 'Active',
+    PAUSED: 'Paused',
+    CANCELLED: 'Cancelled',
+    EXPIRED: 'Expired',
+    FAILED: 'Failed',
+    STALE: 'Stale',
+  };
+
+  return translations[status] ?? status;
+}
@@ -17,11 +17,14 @@ import type {
   Offer,
   Organization,
   Product as SeoProduct,
+  Review,
   WebPage,
 } from 'schema-dts';
 
 import type {ShopFragment} from 'storefrontapi.generated';
 
+import {MAX_RATING, type ProductReview, type ReviewSummary} from './reviews';
+
 function root({
   shop,
   url,
@@ -95,14 +98,23 @@ type ProductRequiredFields = Pick<
   >;
 };
 
+type ProductReviewsFields = {
+  summary: ReviewSummary | null;
+  reviews: Array<
+    Pick<ProductReview, 'rating' | 'title' | 'body' | 'author' | 'createdAt'>
+  >;
+};
+
 function productJsonLd({
   product,
   selectedVariant,
   url,
+  reviews,
 }: {
   product: ProductRequiredFields;
   selectedVariant: SelectedVariantRequiredFields;
   url: Request['url'];
+  reviews?: ProductReviewsFields;
 }): SeoConfig['jsonLd'] {
   const origin = new URL(url).origin;
   const variants = product.variants;
@@ -127,6 +139,23 @@ function productJsonLd({
       url: variantUrl.toString(),
     };
   });
+  const review: Review[] = (reviews?.reviews ?? []).map((productReview) => ({
+    '@type': 'Review',
+    author: {
+      '@type': 'Person',
+      name: productReview.author,
+    },
+    datePublished: productReview.createdAt || undefined,
+    name: productReview.title || undefined,
+    reviewBody: productReview.body,
+    reviewRating: {
+      '@type': 'Rating',
+      ratingValue: productReview.rating,
+      bestRating: MAX_RATING,
+      worstRating: 1,
+    },
+  }));
+
   return [
     {
       '@context': 'https://schema.org',
@@ -158,6 +187,16 @@ function productJsonLd({
       offers,
       sku: selectedVariant?.sku ?? '',
       url,
+      ...(reviews?.summary && {
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: reviews.summary.rating,
+          reviewCount: reviews.summary.count,
+          bestRating: MAX_RATING,
+          worstRating: 1,
+        },
+      }),
+      ...(review.length > 0 && {review}),
     },
   ];
 }
@@ -166,10 +205,12 @@ function product({
   product,
   url,
   selectedVariant,
+  reviews,
 }: {
   product: ProductRequiredFields;
   selectedVariant: SelectedVariantRequiredFields;
   url: Request['url'];
+  reviews?: ProductReviewsFields;
 }): SeoConfig {
   const description = truncate(
     product?.seo?.description ?? product?.description ?? '',
@@ -179,7 +220,7 @@ function product({
     description,
     url,
     media: selectedVariant?.image,
-    jsonLd: productJsonLd({product, selectedVariant, url}),
+    jsonLd: productJsonLd({product, selectedVariant, url, reviews}),
   };
 }
 
@@ -0,0 +1,42 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+import {getCustomerJsonMetafields} from './customer-metafields.server';
+import {getGuestList} from './guest-lists.server';
+import {
+  parseSavedItems,
+  SAVED_FOR_LATER_METAFIELD,
+} from './saved-for-later.server';
+import {parseProductIds, WISHLIST_METAFIELD} from './wishlist.server';
+
+/**
+ * Returns the wishlist and the saved cart lines together, reading both
+ * customer metafields in a single Customer Account API request. Guests get
+ * theirs from the guest list storage.
+ */
+export async function getShopperLists(context: AppLoadContext) {
+  const {customerAccount} = context;
+
+  if (await customerAccount.isLoggedIn()) {
+    const {
+      values: [wishlist, savedForLater],
+    } = await getCustomerJsonMetafields(customerAccount, [
+      WISHLIST_METAFIELD,
+      SAVED_FOR_LATER_METAFIELD,
+    ]);
+
+    return {
+      wishlist: parseProductIds(wishlist),
+      savedForLater: parseSavedItems(savedForLater),
+    };
+  }
+
+  const [wishlist, savedForLater] = await Promise.all([
+    getGuestList(context, 'wishlist'),
+    getGuestList(context, 'saved-for-later'),
+  ]);
+
+  return {
+    wishlist: parseProductIds(wishlist),
+    savedForLater: parseSavedItems(savedForLater),
+  };
+}
@@ -9,11 +9,18 @@ export type NonNullableFields<T> = {
   [P in keyof T]: NonNullable<T[P]>;
 };
 
+/**
+ * Units of sizes and weights, e.g. in spec tables and size guides
+ */
+export type MeasurementSystem = 'metric' | 'imperial';
+
 export type Locale = {
   language: LanguageCode;
   country: CountryCode;
   label: string;
   currency: CurrencyCode;
+  /** Defaults to `metric` */
+  measurementSystem?: MeasurementSystem;
 };
 
 export type Localizations = Record<string, Locale>;
@@ -293,6 +293,12 @@ export function parseAsCurrency(value: number, locale: I18nLocale) {
   }).format(value);
 }
 
+const VARIANT_ID_REGEX = /^gid:\/\/shopify\/ProductVariant\/\d+$/;
+
+export function isVariantId(value: unknown): value is string {
+  return typeof value === 'string' && VARIANT_ID_REGEX.test(value);
+}
+
 /**
  * Validates that a url is local
  * @param url
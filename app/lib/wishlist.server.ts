@@ -0,0 +1,188 @@
+import type {AppLoadContext} from '@shopify/remix-oxygen';
+
+import type {WishlistProductFragment} from 'storefrontapi.generated';
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+
+import {
+  getCustomerJsonMetafield,
+  setCustomerJsonMetafield,
+} from './customer-metafields.server';
+import {
+  deleteGuestList,
+  getGuestList,
+  setGuestList,
+} from './guest-lists.server';
+import type {Storefront} from './type';
+
+export const WISHLIST_INTENTS = ['add', 'remove', 'toggle'] as const;
+
+export const WISHLIST_METAFIELD = {namespace: 'custom', key: 'wishlist'};
+const MAX_WISHLIST_ITEMS = 50;
+const PRODUCT_ID_REGEX = /^gid:\/\/shopify\/Product\/\d+$/;
+
+export type WishlistIntent = (typeof WISHLIST_INTENTS)[number];
+
+export type WishlistItem = {
+  id: string;
+  product: WishlistProductFragment | null;
+  status: 'available' | 'sold-out' | 'unavailable';
+};
+
+export function isProductId(value: unknown): value is string {
+  return typeof value === 'string' && PRODUCT_ID_REGEX.test(value);
+}
+
+/**
+ * Returns the saved product ids. Guests keep their wishlist in the guest list
+ * storage, logged in customers in a `custom.wishlist` JSON metafield.
+ */
+export async function getWishlist(context: AppLoadContext) {
+  const {customerAccount} = context;
+
+  if (await customerAccount.isLoggedIn()) {
+    const {value} = await getCustomerJsonMetafield<string[]>(
+      customerAccount,
+      WISHLIST_METAFIELD,
+    );
+    return parseProductIds(value);
+  }
+
+  return parseProductIds(await getGuestList(context, 'wishlist'));
+}
+
+export async function updateWishlist(
+  context: AppLoadContext,
+  intent: WishlistIntent,
+  productId: string,
+) {
+  const {customerAccount} = context;
+  const isLoggedIn = await customerAccount.isLoggedIn();
+
+  let customerId: string | undefined;
+  let productIds: string[];
+
+  if (isLoggedIn) {
+    const metafield = await getCustomerJsonMetafield<string[]>(
+      customerAccount,
+      WISHLIST_METAFIELD,
+    );
+    customerId = metafield.customerId;
+    productIds = parseProductIds(metafield.value);
+  } else {
+    productIds = parseProductIds(await getGuestList(context, 'wishlist'));
+  }
+
+  const isSaved = productIds.includes(productId);
+  const shouldAdd = intent === 'add' || (intent === 'toggle' && !isSaved);
+
+  const nextProductIds = shouldAdd
+    ? [productId, ...productIds.filter((id) => id !== productId)].slice(
+        0,
+        MAX_WISHLIST_ITEMS,
+      )
+    : productIds.filter((id) => id !== productId);
+
+  if (customerId) {
+    await setCustomerJsonMetafield(
+      customerAccount,
+      customerId,
+      WISHLIST_METAFIELD,
+      nextProductIds,
+    );
+  } else {
+    await setGuestList(context, 'wishlist', nextProductIds);
+  }
+
+  return nextProductIds;
+}
+
+/**
+ * Moves the guest wishlist into the customer metafield. Called right after
+ * login, the guest copy is deleted once merged.
+ */
+export async function mergeGuestWishlist(context: AppLoadContext) {
+  const {customerAccount} = context;
+  const guestProductIds = parseProductIds(
+    await getGuestList(context, 'wishlist'),
+  );
+
+  if (!guestProductIds.length) return;
+
+  const {customerId, value} = await getCustomerJsonMetafield<string[]>(
+    customerAccount,
+    WISHLIST_METAFIELD,
+  );
+
+  const productIds = [
+    ...new Set([...parseProductIds(value), ...guestProductIds]),
+  ].slice(0, MAX_WISHLIST_ITEMS);
+
+  await setCustomerJsonMetafield(
+    customerAccount,
+    customerId,
+    WISHLIST_METAFIELD,
+    productIds,
+  );
+
+  await deleteGuestList(context, 'wishlist');
+}
+
+/**
+ * Loads the saved products from the Storefront API so that deleted
+ * or sold out products can be flagged on the wishlist page.
+ */
+export async function getWishlistItems(
+  storefront: Storefront,
+  productIds: string[],
+): Promise<WishlistItem[]> {
+  if (!productIds.length) return [];
+
+  const {nodes} = await storefront.query(WISHLIST_PRODUCTS_QUERY, {
+    variables: {
+      ids: productIds,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  return productIds.map((id, index) => {
+    const node = nodes[index];
+    const product =
+      node?.__typename === 'Product' ? (node as WishlistProductFragment) : null;
+
+    return {
+      id,
+      product,
+      status: !product
+        ? 'unavailable'
+        : product.availableForSale
+        ? 'available'
+        : 'sold-out',
+    };
+  });
+}
+
+export function parseProductIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.filter(isProductId))].slice(0, MAX_WISHLIST_ITEMS);
+}
+
+const WISHLIST_PRODUCTS_QUERY = `#graphql
+  query WishlistProducts(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on Product {
+        ...WishlistProduct
+      }
+    }
+  }
+  fragment WishlistProduct on Product {
+    ...ProductCard
+    availableForSale
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
@@ -30,6 +30,8 @@ import {GenericError} from '~/components/GenericError';
 import {NotFound} from '~/components/NotFound';
 import favicon from '~/assets/favicon.png';
 import {seoPayload} from '~/lib/seo.server';
+import {getSavedLines, type SavedLine} from '~/lib/saved-for-later.server';
+import {getShopperLists} from '~/lib/shopper-lists.server';
 import styles from '~/styles/app.css?url';
 
 import {DEFAULT_LOCALE, parseMenu} from './lib/utils';
@@ -128,10 +130,17 @@ async function loadCriticalData({request, context}: LoaderFunctionArgs) {
  */
 function loadDeferredData({context}: LoaderFunctionArgs) {
   const {cart, customerAccount} = context;
+  const lists = getShopperLists(context);
 
   return {
     isLoggedIn: customerAccount?.isLoggedIn() ?? Promise.resolve(false),
     cart: cart?.get() ?? Promise.resolve(null),
+    wishlist: lists.then(({wishlist}) => wishlist).catch(() => [] as string[]),
+    savedLines: lists
+      .then(({savedForLater}) =>
+        getSavedLines(context.storefront, savedForLater),
+      )
+      .catch(() => [] as SavedLine[]),
   };
 }
 
@@ -6,6 +6,10 @@ import type {FulfillmentStatus} from '@shopify/hydrogen/customer-account-api-typ
 
 import type {OrderFragment} from 'customer-accountapi.generated';
 import {statusMessage} from '~/lib/utils';
+import {
+  formatSubscriptionInterval,
+  subscriptionStatusMessage,
+} from '~/lib/selling-plans';
 import {Link} from '~/components/Link';
 import {Heading, PageHeader, Text} from '~/components/Text';
 import {CUSTOMER_ORDER_QUERY} from '~/graphql/customer-account/CustomerOrderQuery';
@@ -53,6 +57,8 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
 
     const fulfillments = flattenConnection(order.fulfillments);
 
+    const subscriptionContracts = order.subscriptionContracts?.nodes ?? [];
+
     const fulfillmentStatus =
       fulfillments.length > 0
         ? fulfillments[0].status
@@ -64,6 +70,7 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
       discountValue,
       discountPercentage,
       fulfillmentStatus,
+      subscriptionContracts,
     });
   } catch (error) {
     throw new Response(error instanceof Error ? error.message : undefined, {
@@ -79,6 +86,7 @@ export default function OrderRoute() {
     discountValue,
     discountPercentage,
     fulfillmentStatus,
+    subscriptionContracts,
   } = useLoaderData<typeof loader>();
   return (
     <div>
@@ -144,6 +152,11 @@ export default function OrderRoute() {
                           <Text size="fine" className="mt-1" as="p">
                             {lineItem.variantTitle}
                           </Text>
+                          {lineItem.sellingPlan && (
+                            <Text size="fine" className="mt-1" as="p">
+                              Subscription: {lineItem.sellingPlan.name}
+                            </Text>
+                          )}
                         </div>
                         <dl className="grid">
                           <dt className="sr-only">Product</dt>
@@ -154,6 +167,11 @@ export default function OrderRoute() {
                             <Text size="fine" className="mt-1">
                               {lineItem.variantTitle}
                             </Text>
+                            {lineItem.sellingPlan && (
+                              <Text size="fine" className="mt-1">
+                                Subscription: {lineItem.sellingPlan.name}
+                              </Text>
+                            )}
                           </dd>
                           <dt className="sr-only">Price</dt>
                           <dd className="truncate sm:hidden">
@@ -290,6 +308,33 @@ export default function OrderRoute() {
               ) : (
                 <p className="mt-3">No shipping address defined</p>
               )}
+              {subscriptionContracts.length > 0 && (
+                <>
+                  <Heading size="copy" className="mt-8 font-semibold" as="h3">
+                    Subscriptions
+                  </Heading>
+                  <ul className="mt-3 grid gap-3">
+                    {subscriptionContracts.map((contract) => (
+                      <li key={contract.id}>
+                        <Text as="p">
+                          Delivered{' '}
+                          {formatSubscriptionInterval(
+                            contract.deliveryPolicy.interval,
+                            contract.deliveryPolicy.intervalCount?.count,
+                          )}
+                        </Text>
+                        <Text size="fine" color="subtle" as="p">
+                          {subscriptionStatusMessage(contract.status)}
+                          {contract.nextBillingDate &&
+                            ` · Next billing on ${new Date(
+                              contract.nextBillingDate,
+                            ).toDateString()}`}
+                        </Text>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
               <Heading size="copy" className="mt-8 font-semibold" as="h3">
                 Status
               </Heading>
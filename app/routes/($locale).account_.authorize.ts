@@ -1,5 +1,23 @@
 import type {LoaderFunctionArgs} from '@shopify/remix-oxygen';
 
+import {mergeGuestWishlist} from '~/lib/wishlist.server';
+import {mergeGuestSavedForLater} from '~/lib/saved-for-later.server';
+
 export async function loader({context, params}: LoaderFunctionArgs) {
-  return context.customerAccount.authorize();
+  const response = await context.customerAccount.authorize();
+
+  try {
+    await mergeGuestWishlist(context);
+  } catch (_) {
+    // Don't block the login, the guest wishlist stays in the guest lists and
+    // is merged on the next successful login.
+  }
+
+  try {
+    await mergeGuestSavedForLater(context);
+  } catch (_) {
+    // Same as the wishlist, the guest's saved items wait for the next login.
+  }
+
+  return response;
 }
@@ -0,0 +1,50 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {isEmail, normalizeEmail} from '~/lib/back-in-stock.server';
+import {isVariantId} from '~/lib/utils';
+
+/**
+ * Signs the shopper up to be emailed when a sold out variant is back in stock.
+ * The locale of the request is saved with the signup, so the email can link
+ * to the right market.
+ * @param email the shopper's email address
+ * @param variantId the variant GID
+ * @returns `isNew: false` when the email was already signed up for the variant
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {backInStock, storefront} = context;
+  const formData = await request.formData();
+  const email = formData.get('email');
+  const variantId = formData.get('variantId');
+
+  if (!isEmail(email)) {
+    return json({error: 'Enter a valid email address'}, {status: 400});
+  }
+
+  if (!isVariantId(variantId)) {
+    return json({error: 'A valid variantId is required'}, {status: 400});
+  }
+
+  const {country, language, pathPrefix} = storefront.i18n;
+  const isNew = await backInStock.add({
+    email: normalizeEmail(email),
+    variantId,
+    locale: {country, language, pathPrefix},
+    createdAt: new Date().toISOString(),
+  });
+
+  return json(
+    {isNew},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+// no-op
+export default function BackInStockApiRoute() {
+  return null;
+}
@@ -0,0 +1,130 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+
+import type {BackInStockVariantFragment} from 'storefrontapi.generated';
+import {CACHE_NONE} from '~/data/cache';
+import {isAdminAuthorized} from '~/lib/admin-auth.server';
+import {parseVariantId} from '~/lib/back-in-stock.server';
+
+/**
+ * Restock webhook, e.g. called by a Flow or an inventory app. Returns the
+ * signups of the variants that are available again and removes them, so each
+ * shopper is notified once. Sending the emails is left to the caller.
+ *
+ * Requests are authenticated with the `BACK_IN_STOCK_WEBHOOK_SECRET`, see
+ * `isAdminAuthorized`.
+ * @example
+ * ```sh
+ * curl -X POST localhost:3000/api/back-in-stock/restock \
+ *   -H 'Content-Type: application/json' \
+ *   -d '{"variantIds": ["gid://shopify/ProductVariant/41007289663544"]}'
+ * ```
+ * @param variantIds variant GIDs or numeric ids, `variantId` for a single one
+ * @returns the subscribers to notify for each variant, with the product URL in
+ * their locale, and the variants that are still sold out
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {backInStock, storefront, env} = context;
+  const headers = {'Cache-Control': CACHE_NONE};
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405, headers});
+  }
+
+  if (!isAdminAuthorized(request, env.BACK_IN_STOCK_WEBHOOK_SECRET)) {
+    return json({error: 'Unauthorized'}, {status: 401, headers});
+  }
+
+  const payload = (await request.json().catch(() => null)) as {
+    variantId?: unknown;
+    variantIds?: unknown;
+  } | null;
+  const rawIds = Array.isArray(payload?.variantIds)
+    ? (payload?.variantIds as unknown[])
+    : [payload?.variantId];
+  const variantIds = Array.from(
+    new Set(rawIds.map(parseVariantId).filter((id): id is string => !!id)),
+  );
+
+  if (!variantIds.length) {
+    return json(
+      {error: 'A valid variantId or variantIds is required'},
+      {status: 400, headers},
+    );
+  }
+
+  const {nodes} = await storefront.query(BACK_IN_STOCK_VARIANTS_QUERY, {
+    variables: {ids: variantIds},
+    cache: storefront.CacheNone(),
+  });
+
+  const variants = nodes.flatMap((node) =>
+    node?.__typename === 'ProductVariant'
+      ? [node as BackInStockVariantFragment]
+      : [],
+  );
+
+  const notifications = [];
+  const soldOut = [];
+
+  for (const variantId of variantIds) {
+    const variant = variants.find(({id}) => id === variantId);
+
+    // Keep the signups until the variant can actually be bought
+    if (!variant?.availableForSale) {
+      soldOut.push(variantId);
+      continue;
+    }
+
+    const signups = await backInStock.clear(variantId);
+    if (!signups.length) continue;
+
+    notifications.push({
+      variantId,
+      productTitle: variant.product.title,
+      variantTitle: variant.title,
+      subscribers: signups.map(({email, locale}) => ({
+        email,
+        locale,
+        url: getVariantPath(variant, locale.pathPrefix),
+      })),
+    });
+  }
+
+  return json({notifications, soldOut}, {headers});
+}
+
+function getVariantPath(
+  {product, selectedOptions}: BackInStockVariantFragment,
+  pathPrefix: string,
+) {
+  const searchParams = new URLSearchParams(
+    selectedOptions.map(({name, value}) => [name, value]),
+  );
+
+  return `${pathPrefix}/products/${product.handle}?${searchParams}`;
+}
+
+const BACK_IN_STOCK_VARIANTS_QUERY = `#graphql
+  query BackInStockVariants($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...BackInStockVariant
+      }
+    }
+  }
+
+  fragment BackInStockVariant on ProductVariant {
+    id
+    title
+    availableForSale
+    selectedOptions {
+      name
+      value
+    }
+    product {
+      title
+      handle
+    }
+  }
+` as const;
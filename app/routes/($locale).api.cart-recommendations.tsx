@@ -0,0 +1,111 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import type {CartRecommendationFragment} from 'storefrontapi.generated';
+import {CACHE_SHORT} from '~/data/cache';
+
+const MAX_SOURCE_PRODUCTS = 5;
+const MAX_RECOMMENDATIONS = 4;
+
+/**
+ * Complementary products for the items in the cart, without the products
+ * that are already in it.
+ * @param productIds comma separated product GIDs of the cart lines
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const productIds = Array.from(
+    new Set(
+      (searchParams.get('productIds') ?? '')
+        .split(',')
+        .filter((id) => id.startsWith('gid://shopify/Product/')),
+    ),
+  );
+
+  const results = await Promise.all(
+    productIds.slice(0, MAX_SOURCE_PRODUCTS).map((productId) =>
+      storefront
+        .query(CART_RECOMMENDATIONS_QUERY, {
+          variables: {
+            productId,
+            country: storefront.i18n.country,
+            language: storefront.i18n.language,
+          },
+          cache: storefront.CacheLong(),
+        })
+        // A failing product shouldn't hide the others' recommendations
+        .catch(() => null),
+    ),
+  );
+
+  const seen = new Set(productIds);
+  const products: CartRecommendationFragment[] = [];
+
+  for (const product of results.flatMap(
+    (result) => result?.productRecommendations ?? [],
+  )) {
+    if (seen.has(product.id) || !product.availableForSale) continue;
+    seen.add(product.id);
+    products.push(product);
+  }
+
+  return json(
+    {products: products.slice(0, MAX_RECOMMENDATIONS)},
+    {
+      headers: {
+        'Cache-Control': CACHE_SHORT,
+      },
+    },
+  );
+}
+
+const CART_RECOMMENDATIONS_QUERY = `#graphql
+  query CartRecommendations(
+    $productId: ID!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    productRecommendations(productId: $productId, intent: COMPLEMENTARY) {
+      ...CartRecommendation
+    }
+  }
+
+  fragment CartRecommendation on Product {
+    id
+    title
+    handle
+    availableForSale
+    featuredImage {
+      id
+      url
+      altText
+      width
+      height
+    }
+    variants(first: 10) {
+      nodes {
+        id
+        title
+        availableForSale
+        price {
+          amount
+          currencyCode
+        }
+        image {
+          id
+          url
+          altText
+          width
+          height
+        }
+      }
+    }
+  }
+` as const;
+
+// no-op
+export default function CartRecommendationsApiRoute() {
+  return null;
+}
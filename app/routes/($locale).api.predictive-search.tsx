@@ -0,0 +1,143 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import invariant from 'tiny-invariant';
+
+import type {PredictiveSearchQuery} from 'storefrontapi.generated';
+import {CACHE_SHORT} from '~/data/cache';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 10;
+
+export type PredictiveSearchResults = NonNullable<
+  PredictiveSearchQuery['predictiveSearch']
+> & {term: string};
+
+/**
+ * Fetch typeahead results for the header search from the storefront API
+ * @param q the partial search term
+ * @param limit the max number of results per resource type
+ * @returns products, collections, pages, articles and query suggestions
+ * @see https://shopify.dev/docs/api/storefront/latest/queries/predictiveSearch
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const term = (searchParams.get('q') ?? '').trim();
+
+  let limit = DEFAULT_LIMIT;
+  const _limit = Number(searchParams.get('limit'));
+  if (Number.isInteger(_limit) && _limit > 0) {
+    limit = Math.min(_limit, MAX_LIMIT);
+  }
+
+  if (!term) {
+    return json({results: getEmptyResults(term)});
+  }
+
+  const {predictiveSearch} = await storefront.query(PREDICTIVE_SEARCH_QUERY, {
+    variables: {
+      term,
+      limit,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  invariant(predictiveSearch, 'No data returned from predictive search query');
+
+  return json(
+    {results: {...predictiveSearch, term} as PredictiveSearchResults},
+    {
+      headers: {
+        'Cache-Control': CACHE_SHORT,
+      },
+    },
+  );
+}
+
+function getEmptyResults(term: string): PredictiveSearchResults {
+  return {
+    term,
+    products: [],
+    collections: [],
+    pages: [],
+    articles: [],
+    queries: [],
+  };
+}
+
+const PREDICTIVE_SEARCH_QUERY = `#graphql
+  query PredictiveSearch(
+    $country: CountryCode
+    $language: LanguageCode
+    $limit: Int!
+    $term: String!
+  ) @inContext(country: $country, language: $language) {
+    predictiveSearch(
+      limit: $limit,
+      limitScope: EACH,
+      query: $term,
+      types: [PRODUCT, COLLECTION, PAGE, ARTICLE, QUERY]
+    ) {
+      products {
+        id
+        title
+        handle
+        featuredImage {
+          url
+          altText
+          width
+          height
+        }
+        selectedOrFirstAvailableVariant {
+          id
+          price {
+            amount
+            currencyCode
+          }
+        }
+      }
+      collections {
+        id
+        title
+        handle
+        image {
+          url
+          altText
+          width
+          height
+        }
+      }
+      pages {
+        id
+        title
+        handle
+      }
+      articles {
+        id
+        title
+        handle
+        blog {
+          handle
+        }
+        image {
+          url
+          altText
+          width
+          height
+        }
+      }
+      queries {
+        text
+        styledText
+      }
+    }
+  }
+` as const;
+
+// no-op
+export default function PredictiveSearchApiRoute() {
+  return null;
+}
@@ -0,0 +1,69 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {MAX_QUESTION_LENGTH} from '~/lib/questions';
+import {isProductId} from '~/lib/wishlist.server';
+
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * Adds a logged in customer's question about a product to the moderation
+ * queue. It shows on the product page once staff approve and answer it.
+ * @param productId the product GID
+ * @param question the question
+ * @param name optional display name
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {customerAccount, questions} = context;
+  const headers = {'Cache-Control': CACHE_NONE};
+  const formData = await request.formData();
+  const productId = formData.get('productId');
+  const question = String(formData.get('question') ?? '').trim();
+  const name = String(formData.get('name') ?? '').trim();
+
+  // Keeps anonymous bots from flooding the moderation queue
+  if (!(await customerAccount.isLoggedIn())) {
+    return json(
+      {error: 'Log in to ask a question', requiresLogin: true},
+      {status: 401, headers},
+    );
+  }
+
+  if (!isProductId(productId)) {
+    return json(
+      {error: 'A valid productId is required'},
+      {status: 400, headers},
+    );
+  }
+
+  if (
+    !question ||
+    question.length > MAX_QUESTION_LENGTH ||
+    name.length > MAX_NAME_LENGTH
+  ) {
+    return json(
+      {
+        error: `Ask a question of up to ${MAX_QUESTION_LENGTH} characters, with a name of up to ${MAX_NAME_LENGTH}`,
+      },
+      {status: 400, headers},
+    );
+  }
+
+  await questions.add({
+    id: crypto.randomUUID(),
+    productId,
+    question,
+    author: name || 'Customer',
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    answer: null,
+    answeredAt: null,
+  });
+
+  return json({isQueued: true}, {headers});
+}
+
+// no-op
+export default function QuestionsApiRoute() {
+  return null;
+}
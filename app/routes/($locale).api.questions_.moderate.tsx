@@ -0,0 +1,102 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {isAdminAuthorized} from '~/lib/admin-auth.server';
+import {isQuestionStatus, MAX_ANSWER_LENGTH} from '~/lib/questions';
+import {isProductId} from '~/lib/wishlist.server';
+
+/**
+ * Moderation queue of the product questions, for staff tools.
+ *
+ * Requests are authenticated with the `QUESTIONS_ADMIN_SECRET`, see
+ * `isAdminAuthorized`.
+ * @example
+ * ```sh
+ * curl localhost:3000/api/questions/moderate
+ * curl -X POST localhost:3000/api/questions/moderate \
+ *   -H 'Content-Type: application/json' \
+ *   -d '{"productId": "gid://shopify/Product/7982853619768", "questionId": "…", "status": "approved", "answer": "Yes, it is."}'
+ * ```
+ *
+ * @returns the questions waiting for moderation, oldest first
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  const headers = {'Cache-Control': CACHE_NONE};
+
+  if (!isAdminAuthorized(request, context.env.QUESTIONS_ADMIN_SECRET)) {
+    return json({error: 'Unauthorized'}, {status: 401, headers});
+  }
+
+  return json({questions: await context.questions.listPending()}, {headers});
+}
+
+/**
+ * @param productId the product GID
+ * @param questionId the question id
+ * @param status `approved`, `rejected` or back to `pending`
+ * @param answer the answer shown with an approved question, required to
+ * approve one that has none yet
+ * @returns the moderated question
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const headers = {'Cache-Control': CACHE_NONE};
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405, headers});
+  }
+
+  if (!isAdminAuthorized(request, context.env.QUESTIONS_ADMIN_SECRET)) {
+    return json({error: 'Unauthorized'}, {status: 401, headers});
+  }
+
+  const payload = (await request.json().catch(() => null)) as {
+    productId?: unknown;
+    questionId?: unknown;
+    status?: unknown;
+    answer?: unknown;
+  } | null;
+  const {productId, questionId, status, answer} = payload ?? {};
+
+  if (
+    !isProductId(productId) ||
+    typeof questionId !== 'string' ||
+    !isQuestionStatus(status) ||
+    (answer !== undefined && typeof answer !== 'string') ||
+    (typeof answer === 'string' && answer.length > MAX_ANSWER_LENGTH)
+  ) {
+    return json(
+      {
+        error: `A valid productId, questionId and status are required, with an answer of up to ${MAX_ANSWER_LENGTH} characters`,
+      },
+      {status: 400, headers},
+    );
+  }
+
+  const existing = (await context.questions.list(productId)).find(
+    ({id}) => id === questionId,
+  );
+
+  if (!existing) {
+    return json({error: 'Question not found'}, {status: 404, headers});
+  }
+
+  const nextAnswer = typeof answer === 'string' ? answer.trim() : undefined;
+
+  if (status === 'approved' && !(nextAnswer ?? existing.answer)) {
+    return json(
+      {error: 'Answer the question to approve it'},
+      {status: 400, headers},
+    );
+  }
+
+  const question = await context.questions.moderate(productId, questionId, {
+    status,
+    answer: nextAnswer,
+  });
+
+  return json({question}, {headers});
+}
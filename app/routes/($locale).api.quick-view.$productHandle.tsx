@@ -0,0 +1,126 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {
+  getAdjacentAndFirstAvailableVariants,
+  getSelectedProductOptions,
+} from '@shopify/hydrogen';
+import invariant from 'tiny-invariant';
+
+import {CACHE_SHORT} from '~/data/cache';
+import {
+  PRODUCT_VARIANT_FRAGMENT,
+  SELLING_PLAN_GROUP_FRAGMENT,
+} from '~/data/fragments';
+
+/**
+ * Lightweight product payload for the quick view: enough to pick a variant
+ * and add it to the cart, without the media, description and policies of the
+ * product page.
+ * @param productHandle the product to load
+ * @param searchParams the selected options, e.g. `?Size=154cm`
+ */
+export async function loader({params, request, context}: LoaderFunctionArgs) {
+  const {productHandle} = params;
+  invariant(productHandle, 'Missing productHandle param, check route filename');
+
+  const {storefront} = context;
+
+  const {product, shop} = await storefront.query(QUICK_VIEW_PRODUCT_QUERY, {
+    variables: {
+      handle: productHandle,
+      selectedOptions: getSelectedProductOptions(request),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  // Returned rather than thrown, so a missing product doesn't take over the
+  // error boundary of the page the quick view was opened from
+  if (!product?.id) {
+    return json({product: null, variants: [], storeDomain: ''}, {status: 404});
+  }
+
+  return json(
+    {
+      product,
+      variants: getAdjacentAndFirstAvailableVariants(product),
+      storeDomain: shop.primaryDomain.url,
+    },
+    {
+      headers: {
+        'Cache-Control': CACHE_SHORT,
+      },
+    },
+  );
+}
+
+const QUICK_VIEW_PRODUCT_QUERY = `#graphql
+  query QuickViewProduct(
+    $country: CountryCode
+    $language: LanguageCode
+    $handle: String!
+    $selectedOptions: [SelectedOptionInput!]!
+  ) @inContext(country: $country, language: $language) {
+    product(handle: $handle) {
+      id
+      title
+      vendor
+      handle
+      tags
+      encodedVariantExistence
+      encodedVariantAvailability
+      featuredImage {
+        id
+        url
+        altText
+        width
+        height
+      }
+      options {
+        name
+        optionValues {
+          name
+          firstSelectableVariant {
+            ...ProductVariant
+          }
+          swatch {
+            color
+            image {
+              previewImage {
+                url
+              }
+            }
+          }
+        }
+      }
+      selectedOrFirstAvailableVariant(
+        selectedOptions: $selectedOptions
+        ignoreUnknownOptions: true
+        caseInsensitiveMatch: true
+      ) {
+        ...ProductVariant
+      }
+      adjacentVariants(selectedOptions: $selectedOptions) {
+        ...ProductVariant
+      }
+      requiresSellingPlan
+      sellingPlanGroups(first: 10) {
+        nodes {
+          ...SellingPlanGroup
+        }
+      }
+    }
+    shop {
+      primaryDomain {
+        url
+      }
+    }
+  }
+  ${PRODUCT_VARIANT_FRAGMENT}
+  ${SELLING_PLAN_GROUP_FRAGMENT}
+` as const;
+
+// no-op
+export default function QuickViewApiRoute() {
+  return null;
+}
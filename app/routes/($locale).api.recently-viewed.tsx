@@ -0,0 +1,74 @@
+import {json, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+
+import type {ProductCardFragment} from 'storefrontapi.generated';
+import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+import {CACHE_SHORT} from '~/data/cache';
+import {RECENTLY_VIEWED_MAX_ITEMS} from '~/lib/recently-viewed';
+
+/**
+ * Fetch the recently viewed products in one batch, keeping the order of the
+ * given ids. Products that were deleted or unpublished are left out.
+ * @param ids comma separated product GIDs, most recent first
+ */
+export async function loader({
+  request,
+  context: {storefront},
+}: LoaderFunctionArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const ids = Array.from(
+    new Set(
+      (searchParams.get('ids') ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id.startsWith('gid://shopify/Product/')),
+    ),
+  ).slice(0, RECENTLY_VIEWED_MAX_ITEMS);
+
+  if (!ids.length) {
+    return json({products: [] as ProductCardFragment[]});
+  }
+
+  const {nodes} = await storefront.query(RECENTLY_VIEWED_PRODUCTS_QUERY, {
+    variables: {
+      ids,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  const products = nodes.filter(
+    (node): node is ProductCardFragment & {__typename: 'Product'} =>
+      node?.__typename === 'Product',
+  );
+
+  return json(
+    {products},
+    {
+      headers: {
+        'Cache-Control': CACHE_SHORT,
+      },
+    },
+  );
+}
+
+const RECENTLY_VIEWED_PRODUCTS_QUERY = `#graphql
+  query RecentlyViewedProducts(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on Product {
+        ...ProductCard
+      }
+    }
+  }
+  ${PRODUCT_CARD_FRAGMENT}
+` as const;
+
+// no-op
+export default function RecentlyViewedApiRoute() {
+  return null;
+}
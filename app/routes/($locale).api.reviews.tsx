@@ -0,0 +1,100 @@
+import {json, type ActionFunctionArgs} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {parseRating} from '~/lib/reviews';
+import {getVerifiedPurchase, toProductReview} from '~/lib/reviews.server';
+import {isProductId} from '~/lib/wishlist.server';
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_BODY_LENGTH = 2000;
+
+/**
+ * Saves a review from a logged in customer who bought the product. With
+ * `REVIEWS_MODERATION=true` new reviews wait for approval before showing.
+ * @param productId the product GID
+ * @param rating whole stars from 1 to 5
+ * @param title optional headline
+ * @param body the review
+ * @returns the saved review, whose `status` tells if it's published yet
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {customerAccount, reviews, env} = context;
+  const headers = {'Cache-Control': CACHE_NONE};
+  const formData = await request.formData();
+  const productId = formData.get('productId');
+  const rating = parseRating(formData.get('rating'));
+  const title = String(formData.get('title') ?? '').trim();
+  const body = String(formData.get('body') ?? '').trim();
+
+  if (!(await customerAccount.isLoggedIn())) {
+    return json(
+      {error: 'Log in to write a review', requiresLogin: true},
+      {status: 401, headers},
+    );
+  }
+
+  if (!isProductId(productId)) {
+    return json(
+      {error: 'A valid productId is required'},
+      {status: 400, headers},
+    );
+  }
+
+  if (!rating) {
+    return json(
+      {error: 'Choose a rating from 1 to 5 stars'},
+      {status: 400, headers},
+    );
+  }
+
+  if (
+    !body ||
+    body.length > MAX_BODY_LENGTH ||
+    title.length > MAX_TITLE_LENGTH
+  ) {
+    return json(
+      {
+        error: `Write a review of up to ${MAX_BODY_LENGTH} characters, with a title of up to ${MAX_TITLE_LENGTH}`,
+      },
+      {status: 400, headers},
+    );
+  }
+
+  const purchase = await getVerifiedPurchase(customerAccount, productId);
+
+  if (!purchase) {
+    return json(
+      {error: 'Only customers who bought this product can review it'},
+      {status: 403, headers},
+    );
+  }
+
+  const review = {
+    id: crypto.randomUUID(),
+    productId,
+    rating,
+    title,
+    body,
+    author: purchase.author,
+    customerId: purchase.customerId,
+    createdAt: new Date().toISOString(),
+    status:
+      env.REVIEWS_MODERATION === 'true'
+        ? ('pending' as const)
+        : ('published' as const),
+  };
+
+  if (!(await reviews.add(review))) {
+    return json(
+      {error: 'You already reviewed this product'},
+      {status: 409, headers},
+    );
+  }
+
+  return json({review: toProductReview(review)}, {headers});
+}
+
+// no-op
+export default function ReviewsApiRoute() {
+  return null;
+}
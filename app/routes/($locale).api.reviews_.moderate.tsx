@@ -0,0 +1,89 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {isAdminAuthorized} from '~/lib/admin-auth.server';
+import {isReviewStatus} from '~/lib/reviews';
+import {isProductId} from '~/lib/wishlist.server';
+
+/**
+ * Moderation of the reviews written on the storefront, for staff tools.
+ *
+ * Requests are authenticated with the `REVIEWS_ADMIN_SECRET`, see
+ * `isAdminAuthorized`.
+ * @example
+ * ```sh
+ * curl 'localhost:3000/api/reviews/moderate?productId=gid://shopify/Product/7982853619768'
+ * curl -X POST localhost:3000/api/reviews/moderate \
+ *   -H 'Content-Type: application/json' \
+ *   -d '{"productId": "gid://shopify/Product/7982853619768", "reviewId": "…", "status": "published"}'
+ * ```
+ *
+ * @param productId the product GID
+ * @returns all the reviews of the product, whatever their status
+ */
+export async function loader({request, context}: LoaderFunctionArgs) {
+  const headers = {'Cache-Control': CACHE_NONE};
+
+  if (!isAdminAuthorized(request, context.env.REVIEWS_ADMIN_SECRET)) {
+    return json({error: 'Unauthorized'}, {status: 401, headers});
+  }
+
+  const productId = new URL(request.url).searchParams.get('productId');
+
+  if (!isProductId(productId)) {
+    return json(
+      {error: 'A valid productId is required'},
+      {status: 400, headers},
+    );
+  }
+
+  return json({reviews: await context.reviews.list(productId)}, {headers});
+}
+
+/**
+ * @param productId the product GID
+ * @param reviewId the review id
+ * @param status `published`, `rejected` or back to `pending`
+ * @returns the moderated review
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const headers = {'Cache-Control': CACHE_NONE};
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405, headers});
+  }
+
+  if (!isAdminAuthorized(request, context.env.REVIEWS_ADMIN_SECRET)) {
+    return json({error: 'Unauthorized'}, {status: 401, headers});
+  }
+
+  const payload = (await request.json().catch(() => null)) as {
+    productId?: unknown;
+    reviewId?: unknown;
+    status?: unknown;
+  } | null;
+  const {productId, reviewId, status} = payload ?? {};
+
+  if (
+    !isProductId(productId) ||
+    typeof reviewId !== 'string' ||
+    !isReviewStatus(status)
+  ) {
+    return json(
+      {error: 'A valid productId, reviewId and status are required'},
+      {status: 400, headers},
+    );
+  }
+
+  const review = await context.reviews.setStatus(productId, reviewId, status);
+
+  if (!review) {
+    return json({error: 'Review not found'}, {status: 404, headers});
+  }
+
+  return json({review}, {headers});
+}
@@ -0,0 +1,142 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import {flattenConnection} from '@shopify/hydrogen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {
+  addSavedItem,
+  getSavedForLater,
+  getSavedLines,
+  removeSavedItem,
+  updateSavedForLater,
+  SAVED_FOR_LATER_INTENTS,
+  type SavedForLaterIntent,
+} from '~/lib/saved-for-later.server';
+import {getQuantityRuleErrors} from '~/lib/quantity-rules.server';
+import {getCartLineKey} from '~/lib/cart-permalink';
+
+/**
+ * Moves lines between the cart and the current shopper's saved items
+ * @param intent `save` a cart line, `restore` a saved item to the cart or
+ * `remove` a saved item
+ * @param lineId the cart line GID, for `save`
+ * @param lineKey the `getCartLineKey` key of the saved item, for `restore` and
+ * `remove`
+ * @returns the updated list of saved items
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const {cart} = context;
+  const formData = await request.formData();
+  const intent = formData.get('intent') as SavedForLaterIntent | null;
+
+  if (!intent || !SAVED_FOR_LATER_INTENTS.includes(intent)) {
+    return json(
+      {error: `Unknown saved for later intent: ${intent}`},
+      {status: 400},
+    );
+  }
+
+  const headers = new Headers({'Cache-Control': CACHE_NONE});
+
+  if (intent === 'save') {
+    const lineId = formData.get('lineId');
+    const currentCart = await cart.get();
+    const line = currentCart
+      ? flattenConnection(currentCart.lines).find(({id}) => id === lineId)
+      : undefined;
+
+    if (!currentCart || !line) {
+      return json({error: 'The cart line no longer exists'}, {status: 404});
+    }
+
+    // Save first, so a failing cart update never loses the item
+    const savedItems = await updateSavedForLater(context, (items) =>
+      addSavedItem(items, {
+        merchandiseId: line.merchandise.id,
+        quantity: line.quantity,
+        sellingPlanId: line.sellingPlanAllocation?.sellingPlan.id,
+        attributes: line.attributes.map(({key, value}) => ({
+          key,
+          value: value ?? '',
+        })),
+      }),
+    );
+    const result = await cart.removeLines([line.id]);
+    const errors = [...(result.userErrors ?? []), ...(result.errors ?? [])];
+
+    // The item stays saved even when the line couldn't be removed
+    if (!result.cart?.id) {
+      return json({savedItems, errors}, {status: 400, headers});
+    }
+
+    cart.setCartId(result.cart.id).forEach((value, key) => {
+      headers.set(key, value);
+    });
+
+    return json({savedItems, errors}, {headers});
+  }
+
+  const lineKey = formData.get('lineKey');
+
+  if (typeof lineKey !== 'string' || !lineKey) {
+    return json({error: 'A saved item lineKey is required'}, {status: 400});
+  }
+
+  if (intent === 'restore') {
+    const item = (await getSavedForLater(context)).find(
+      (savedItem) => getCartLineKey(savedItem) === lineKey,
+    );
+
+    if (!item) {
+      return json({error: 'The item is no longer saved'}, {status: 404});
+    }
+
+    // The cart API doesn't enforce quantity rules, only checkout does
+    const userErrors = await getQuantityRuleErrors(context, await cart.get(), [
+      item,
+    ]);
+
+    if (userErrors.length) {
+      return json({errors: userErrors}, {status: 400, headers});
+    }
+
+    const result = await cart.addLines([item]);
+
+    const errors = [...(result.userErrors ?? []), ...(result.errors ?? [])];
+
+    if (errors.length || !result.cart?.id) {
+      return json({errors}, {status: 400, headers});
+    }
+
+    cart.setCartId(result.cart.id).forEach((value, key) => {
+      headers.set(key, value);
+    });
+  }
+
+  const savedItems = await updateSavedForLater(context, (items) =>
+    removeSavedItem(items, lineKey),
+  );
+
+  return json({savedItems}, {headers});
+}
+
+export async function loader({context}: LoaderFunctionArgs) {
+  const savedItems = await getSavedForLater(context);
+
+  return json(
+    {savedLines: await getSavedLines(context.storefront, savedItems)},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+// no-op
+export default function SavedForLaterApiRoute() {
+  return null;
+}
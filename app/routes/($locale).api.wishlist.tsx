@@ -0,0 +1,61 @@
+import {
+  json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+
+import {CACHE_NONE} from '~/data/cache';
+import {
+  getWishlist,
+  isProductId,
+  updateWishlist,
+  WISHLIST_INTENTS,
+  type WishlistIntent,
+} from '~/lib/wishlist.server';
+
+/**
+ * Adds, removes or toggles a product in the current shopper's wishlist
+ * @param intent `add`, `remove` or `toggle`
+ * @param productId the product GID
+ * @returns the updated list of saved product ids
+ */
+export async function action({request, context}: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get('intent') as WishlistIntent | null;
+  const productId = formData.get('productId');
+
+  if (!intent || !WISHLIST_INTENTS.includes(intent)) {
+    return json({error: `Unknown wishlist intent: ${intent}`}, {status: 400});
+  }
+
+  if (!isProductId(productId)) {
+    return json({error: 'A valid productId is required'}, {status: 400});
+  }
+
+  const wishlist = await updateWishlist(context, intent, productId);
+
+  return json(
+    {wishlist},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+export async function loader({context}: LoaderFunctionArgs) {
+  return json(
+    {wishlist: await getWishlist(context)},
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+// no-op
+export default function WishlistApiRoute() {
+  return null;
+}
@@ -1,16 +1,47 @@
-import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
+import {
+  json,
+  redirect,
+  type LoaderFunctionArgs,
+  type MetaArgs,
+} from '@shopify/remix-oxygen';
+import {useLoaderData} from '@remix-run/react';
+import {flattenConnection, getSeoMeta, Image} from '@shopify/hydrogen';
+import type {CartLine} from '@shopify/hydrogen/storefront-api-types';
+
+import type {CartPermalinkVariantFragment} from 'storefrontapi.generated';
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {CACHE_NONE} from '~/data/cache';
+import {
+  CART_PERMALINK_MERGE_MODE,
+  CART_PERMALINK_MODE_PARAM,
+  getCartLineKey,
+  getPermalinkItem,
+  parseCartPermalink,
+  parseCartPermalinkDiscountCodes,
+  type CartPermalinkError,
+  type CartPermalinkLine,
+} from '~/lib/cart-permalink';
+import {mergeDiscountCodes} from '~/lib/discounts';
+import type {Storefront} from '~/lib/type';
 
 /**
  * Automatically creates a new cart based on the URL and redirects straight to checkout.
  * Expected URL structure:
  * ```ts
- * /cart/<variant_id>:<quantity>
+ * /cart/<variant_id>:<quantity>[:<selling_plan_id>]
  *
  * ```
  * More than one `<variant_id>:<quantity>` separated by a comma, can be supplied in the URL, for
  * carts with more than one product variant.
  *
- * @param `?discount` an optional discount code to apply to the cart
+ * Items that can't be added are listed on a page from which the shopper can still continue
+ * to checkout with the other items.
+ *
+ * @param `?discount` optional discount codes to apply to the cart, separated by a comma
+ * @param `?attributes[<index>][<key>]` optional attributes of the line at `index`, starting at 0
+ * @param `?mode=merge` adds the lines to the visitor's existing cart and shows a confirmation
+ * page instead of redirecting to checkout
  * @example
  * Example path creating a cart with two product variants, different quantities, and a discount code:
  * ```ts
@@ -20,50 +51,375 @@ import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
  * @preserve
  */
 export async function loader({request, context, params}: LoaderFunctionArgs) {
-  const {cart} = context;
-  const {lines} = params;
-  const linesMap = lines?.split(',').map((line) => {
-    const lineDetails = line.split(':');
-    const variantId = lineDetails[0];
-    const quantity = parseInt(lineDetails[1], 10);
-
-    return {
-      merchandiseId: `gid://shopify/ProductVariant/${variantId}`,
-      quantity,
-    };
-  });
+  const {cart, storefront} = context;
 
   const url = new URL(request.url);
   const searchParams = new URLSearchParams(url.search);
 
-  const discount = searchParams.get('discount');
-  const discountArray = discount ? [discount] : [];
+  const parsed = parseCartPermalink(params.lines, searchParams);
+  const discountArray = parseCartPermalinkDiscountCodes(searchParams);
+  const isMerge =
+    searchParams.get(CART_PERMALINK_MODE_PARAM) === CART_PERMALINK_MERGE_MODE;
 
-  //! create a cart
-  const result = await cart.create({
-    lines: linesMap,
-    discountCodes: discountArray,
-  });
+  const {lines, errors: unavailableErrors} = await getAvailableLines(
+    storefront,
+    parsed.lines,
+  );
+  const errors = [...parsed.errors, ...unavailableErrors];
 
-  const cartResult = result.cart;
-
-  if (result.errors?.length || !cartResult) {
-    throw new Response('Link may be expired. Try checking the URL.', {
-      status: 410,
-    });
+  if (!lines.length) {
+    return json(
+      {
+        isMerge,
+        errors,
+        addedLines: [],
+        discountCodes: [],
+        checkoutUrl: null,
+        seo: getSeo(isMerge),
+      },
+      {status: 410, headers: {'Cache-Control': CACHE_NONE}},
+    );
   }
 
+  //! create a cart, or add to the existing one in merge mode
+  const {cartId, errors: cartErrors} = await addPermalinkLines(context, lines, {
+    isMerge,
+    discountArray,
+  });
+  errors.push(...cartErrors);
+
+  const cartResult = cartId ? await cart.get() : null;
+
   // Update cart id in cookie
-  const headers = cart.setCartId(cartResult.id);
+  const headers = cartId
+    ? cart.setCartId(cartId)
+    : new Headers({'Cache-Control': CACHE_NONE});
 
   //! redirect to checkout
-  if (cartResult.checkoutUrl) {
+  if (!isMerge && !errors.length && cartResult?.checkoutUrl) {
     return redirect(cartResult.checkoutUrl, {headers});
-  } else {
-    throw new Error('No checkout URL found');
   }
+
+  headers.set('Cache-Control', CACHE_NONE);
+
+  // Keyed like the cart merges lines, a variant may come with several
+  // selling plans or attributes
+  const quantities = new Map(
+    lines.map((line) => [getCartLineKey(line), line.quantity]),
+  );
+  const addedLines = (
+    cartResult ? (flattenConnection(cartResult.lines) as CartLine[]) : []
+  ).flatMap((line) => {
+    const addedQuantity = quantities.get(
+      getCartLineKey({
+        merchandiseId: line.merchandise.id,
+        sellingPlanId: line.sellingPlanAllocation?.sellingPlan.id,
+        attributes: line.attributes.flatMap(({key, value}) =>
+          value ? {key, value} : [],
+        ),
+      }),
+    );
+
+    if (addedQuantity === undefined) return [];
+
+    return {...line, addedQuantity: isMerge ? addedQuantity : line.quantity};
+  });
+
+  return json(
+    {
+      isMerge,
+      errors,
+      addedLines,
+      discountCodes: (cartResult?.discountCodes ?? []).filter(({code}) =>
+        discountArray.includes(code),
+      ),
+      checkoutUrl: addedLines.length ? cartResult?.checkoutUrl ?? null : null,
+      seo: getSeo(isMerge),
+    },
+    {status: addedLines.length ? 200 : 410, headers},
+  );
 }
 
-export default function Component() {
-  return null;
+function getSeo(isMerge: boolean) {
+  return {
+    title: isMerge ? 'Added to your cart' : 'Your cart',
+    robots: {noIndex: true, noFollow: true},
+  };
 }
+
+/**
+ * Drops the lines whose variant doesn't exist or is sold out, so they can be
+ * reported by name instead of failing the whole cart.
+ */
+async function getAvailableLines(
+  storefront: Storefront,
+  lines: CartPermalinkLine[],
+) {
+  if (!lines.length) return {lines, errors: []};
+
+  const {nodes} = await storefront.query(CART_PERMALINK_VARIANTS_QUERY, {
+    variables: {
+      ids: Array.from(new Set(lines.map(({merchandiseId}) => merchandiseId))),
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+    cache: storefront.CacheShort(),
+  });
+
+  const variants = new Map(
+    nodes.flatMap((node) =>
+      node?.__typename === 'ProductVariant'
+        ? [[node.id, node as CartPermalinkVariantFragment] as const]
+        : [],
+    ),
+  );
+
+  const availableLines: CartPermalinkLine[] = [];
+  const errors: CartPermalinkError[] = [];
+
+  for (const line of lines) {
+    const variant = variants.get(line.merchandiseId);
+
+    if (!variant) {
+      errors.push({
+        item: getPermalinkItem(line),
+        reason: 'This product is no longer available.',
+      });
+    } else if (!variant.availableForSale) {
+      errors.push({
+        item: getPermalinkItem(line),
+        title: getVariantTitle(variant),
+        reason: 'This product is sold out.',
+      });
+    } else {
+      availableLines.push(line);
+    }
+  }
+
+  return {lines: availableLines, errors};
+}
+
+/**
+ * Adds all the lines in one mutation. When the cart rejects some of them, for
+ * example because of a selling plan that doesn't belong to the variant, the
+ * lines are retried one by one so the valid ones still make it to the cart.
+ */
+async function addPermalinkLines(
+  {cart}: LoaderFunctionArgs['context'],
+  lines: CartPermalinkLine[],
+  {isMerge, discountArray}: {isMerge: boolean; discountArray: string[]},
+) {
+  const errors: CartPermalinkError[] = [];
+
+  const result = isMerge
+    ? await cart.addLines(lines)
+    : await cart.create({lines, discountCodes: discountArray});
+
+  let cartId = result.cart?.id;
+
+  if (hasCartErrors(result) || !cartId) {
+    // A cart created with some of the lines is kept, so the shopper doesn't
+    // end up with a second one, and only the missing lines are retried
+    const isPartiallyCreated = !isMerge && Boolean(cartId);
+
+    if (!isMerge && !cartId) {
+      cartId = (await cart.create({discountCodes: discountArray})).cart?.id;
+    }
+
+    const currentCart = isPartiallyCreated ? await cart.get() : null;
+    const addedIds = new Set(
+      (currentCart
+        ? (flattenConnection(currentCart.lines) as CartLine[])
+        : []
+      ).map(({merchandise}) => merchandise.id),
+    );
+
+    for (const line of lines) {
+      if (addedIds.has(line.merchandiseId)) continue;
+
+      const lineResult = await cart.addLines([line], {cartId});
+
+      if (hasCartErrors(lineResult) || !lineResult.cart?.id) {
+        errors.push({
+          item: getPermalinkItem(line),
+          reason:
+            lineResult.userErrors?.[0]?.message ??
+            'This item could not be added to the cart.',
+        });
+      } else {
+        cartId = lineResult.cart.id;
+      }
+    }
+  }
+
+  if (isMerge && cartId && discountArray.length) {
+    const currentCart = await cart.get();
+    await cart.updateDiscountCodes(
+      mergeDiscountCodes(
+        (currentCart?.discountCodes ?? []).map(({code}) => code),
+        discountArray,
+      ),
+    );
+  }
+
+  return {cartId, errors};
+}
+
+function hasCartErrors({
+  errors,
+  userErrors,
+}: {
+  errors?: unknown[];
+  userErrors?: unknown[];
+}) {
+  return Boolean(errors?.length || userErrors?.length);
+}
+
+function getVariantTitle({title, product}: CartPermalinkVariantFragment) {
+  return title === 'Default Title'
+    ? product.title
+    : `${product.title} (${title})`;
+}
+
+export const meta = ({matches}: MetaArgs<typeof loader>) => {
+  return getSeoMeta(...matches.map((match) => (match.data as any).seo));
+};
+
+export default function SharedCart() {
+  const {isMerge, errors, addedLines, discountCodes, checkoutUrl} =
+    useLoaderData<typeof loader>();
+
+  const heading = addedLines.length
+    ? isMerge
+      ? 'Added to your cart'
+      : 'Your cart is almost ready'
+    : 'This cart link no longer works';
+
+  return (
+    <>
+      <PageHeader heading={heading} />
+      <Section>
+        <div className="grid gap-8 max-w-xl">
+          {errors.length > 0 && (
+            <div role="alert" className="grid gap-3 p-4 bg-neutral-100">
+              <Text className="text-sm font-medium text-neutral-900">
+                {addedLines.length
+                  ? 'Some items could not be added:'
+                  : 'None of the items in this link could be added:'}
+              </Text>
+              <ul className="grid gap-2">
+                {errors.map((error) => (
+                  <li
+                    key={`${error.item}-${error.reason}`}
+                    className="text-sm text-neutral-700"
+                  >
+                    <span className="font-medium">
+                      {error.title ?? `Item ${error.item}`}
+                    </span>{' '}
+                    — {error.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {addedLines.length > 0 && (
+            <ul className="grid gap-6">
+              {addedLines.map((line) => (
+                <li key={line.id} className="flex gap-4">
+                  {line.merchandise.image && (
+                    <Image
+                      width={100}
+                      height={100}
+                      data={line.merchandise.image}
+                      className="object-cover object-center w-20 h-20 bg-neutral-100"
+                      alt={line.merchandise.title}
+                    />
+                  )}
+                  <div className="grid gap-1 content-start">
+                    <Link
+                      to={`/products/${line.merchandise.product.handle}`}
+                      className="text-sm font-medium text-neutral-900 hover:text-violet-600 transition-colors"
+                    >
+                      {line.merchandise.product.title}
+                    </Link>
+                    {line.merchandise.selectedOptions
+                      .filter(({value}) => value !== 'Default Title')
+                      .map((option) => (
+                        <Text key={option.name} className="text-xs opacity-50">
+                          {option.name}: {option.value}
+                        </Text>
+                      ))}
+                    <Text className="text-xs opacity-50">
+                      {isMerge ? 'Quantity added' : 'Quantity'}:{' '}
+                      {line.addedQuantity}
+                    </Text>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {discountCodes.length > 0 && (
+            <Text className="text-sm text-neutral-700">
+              Discount codes:{' '}
+              {discountCodes
+                .map(({code, applicable}) =>
+                  applicable ? code : `${code} (not applicable)`,
+                )
+                .join(', ')}
+            </Text>
+          )}
+          <div className="flex flex-wrap gap-4">
+            {addedLines.length > 0 ? (
+              <Link
+                to="/cart"
+                className="px-6 py-3 border border-neutral-900 text-sm tracking-[0.15em] uppercase font-medium text-neutral-900 hover:border-violet-600 hover:text-violet-600 transition-colors"
+              >
+                View cart
+              </Link>
+            ) : (
+              <Link
+                to="/products"
+                className="px-6 py-3 border border-neutral-900 text-sm tracking-[0.15em] uppercase font-medium text-neutral-900 hover:border-violet-600 hover:text-violet-600 transition-colors"
+              >
+                Browse products
+              </Link>
+            )}
+            {checkoutUrl && (
+              <a
+                href={checkoutUrl}
+                target="_self"
+                className="px-6 py-3 bg-neutral-900 text-white text-sm tracking-[0.15em] uppercase font-medium hover:bg-violet-600 transition-colors"
+              >
+                Continue to Checkout
+              </a>
+            )}
+          </div>
+        </div>
+      </Section>
+    </>
+  );
+}
+
+const CART_PERMALINK_VARIANTS_QUERY = `#graphql
+  query CartPermalinkVariants(
+    $ids: [ID!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on ProductVariant {
+        ...CartPermalinkVariant
+      }
+    }
+  }
+
+  fragment CartPermalinkVariant on ProductVariant {
+    id
+    title
+    availableForSale
+    product {
+      title
+    }
+  }
+` as const;
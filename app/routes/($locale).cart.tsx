@@ -6,9 +6,15 @@ import {
   json,
 } from '@shopify/remix-oxygen';
 import {CartForm, type CartQueryDataReturn, Analytics} from '@shopify/hydrogen';
+import type {CartUserError} from '@shopify/hydrogen/storefront-api-types';
 
 import {isLocalPath} from '~/lib/utils';
+import {CART_NOTE_MAX_LENGTH} from '~/lib/cart-attributes';
+import {mergeDiscountCodes, parseDiscountCodes} from '~/lib/discounts';
+import {addGiftCardCode} from '~/lib/gift-cards.server';
+import {getQuantityRuleErrors} from '~/lib/quantity-rules.server';
 import {Cart} from '~/components/Cart';
+import {RecentlyViewed} from '~/components/RecentlyViewed';
 
 export async function action({request, context}: ActionFunctionArgs) {
   const {cart} = context;
@@ -21,6 +27,26 @@ export async function action({request, context}: ActionFunctionArgs) {
   let status = 200;
   let result: CartQueryDataReturn;
 
+  // The cart API doesn't enforce quantity rules, only checkout does
+  if (
+    action === CartForm.ACTIONS.LinesAdd ||
+    action === CartForm.ACTIONS.LinesUpdate
+  ) {
+    const currentCart = await cart.get();
+    const userErrors = await getQuantityRuleErrors(
+      context,
+      currentCart,
+      inputs.lines,
+    );
+
+    if (userErrors.length) {
+      return json(
+        {cart: currentCart, userErrors, warnings: [], errors: []},
+        {status: 400},
+      );
+    }
+  }
+
   switch (action) {
     case CartForm.ACTIONS.LinesAdd:
       result = await cart.addLines(inputs.lines);
@@ -32,18 +58,55 @@ export async function action({request, context}: ActionFunctionArgs) {
       result = await cart.removeLines(inputs.lineIds);
       break;
     case CartForm.ACTIONS.DiscountCodesUpdate:
-      const formDiscountCode = inputs.discountCode;
-
-      // User inputted discount code
-      const discountCodes = (
-        formDiscountCode ? [formDiscountCode] : []
-      ) as string[];
+      // User inputted discount codes, several can be separated by a comma
+      const formDiscountCodes = parseDiscountCodes(
+        inputs.discountCode as string | undefined,
+      );
 
       // Combine discount codes already applied on cart
-      discountCodes.push(...inputs.discountCodes);
+      const discountCodes = mergeDiscountCodes(
+        inputs.discountCodes as string[],
+        formDiscountCodes,
+      );
 
       result = await cart.updateDiscountCodes(discountCodes);
       break;
+    case CartForm.ACTIONS.GiftCardCodesUpdate:
+      const formGiftCardCode = String(inputs.giftCardCode ?? '').replace(
+        /\s/g,
+        '',
+      );
+
+      if (!formGiftCardCode) {
+        const userErrors: CartUserError[] = [
+          {
+            code: 'INVALID',
+            field: ['giftCardCodes'],
+            message: 'Enter a gift card code',
+          },
+        ];
+
+        return json(
+          {cart: await cart.get(), userErrors, warnings: [], errors: []},
+          {status: 400},
+        );
+      }
+
+      result = await addGiftCardCode(context, formGiftCardCode);
+      break;
+    case CartForm.ACTIONS.GiftCardCodesRemove:
+      result = await cart.removeGiftCardCodes(inputs.giftCardCodes);
+      break;
+    case CartForm.ACTIONS.NoteUpdate:
+      result = await cart.updateNote(
+        String(inputs.note ?? '')
+          .trim()
+          .slice(0, CART_NOTE_MAX_LENGTH),
+      );
+      break;
+    case CartForm.ACTIONS.AttributesUpdateInput:
+      result = await cart.updateAttributes(inputs.attributes);
+      break;
     case CartForm.ACTIONS.BuyerIdentityUpdate:
       result = await cart.updateBuyerIdentity({
         ...inputs.buyerIdentity,
@@ -65,12 +128,13 @@ export async function action({request, context}: ActionFunctionArgs) {
     headers.set('Location', redirectTo);
   }
 
-  const {cart: cartResult, errors, userErrors} = result;
+  const {cart: cartResult, errors, userErrors, warnings} = result;
 
   return json(
     {
       cart: cartResult,
       userErrors,
+      warnings,
       errors,
     },
     {status, headers},
@@ -89,6 +153,7 @@ export default function CartRoute() {
     <div className="cart">
       <h1>Cart</h1>
       <Cart layout="page" cart={cart} />
+      <RecentlyViewed />
       <Analytics.CartView />
     </div>
   );
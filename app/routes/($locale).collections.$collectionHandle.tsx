@@ -9,7 +9,6 @@ import {useInView} from 'react-intersection-observer';
 import type {
   Filter,
   ProductCollectionSortKeys,
-  ProductFilter,
 } from '@shopify/hydrogen/storefront-api-types';
 import {
   Pagination,
@@ -26,10 +25,11 @@ import {SortFilter, type SortParam} from '~/components/SortFilter';
 import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
 import {routeHeaders} from '~/data/cache';
 import {seoPayload} from '~/lib/seo.server';
-import {FILTER_URL_PREFIX} from '~/components/SortFilter';
-import {parseAsCurrency} from '~/lib/utils';
+import {getAppliedFilters, parseFilterParams} from '~/lib/filters';
+import {quickViewShouldRevalidate} from '~/lib/quick-view';
 
 export const headers = routeHeaders;
+export const shouldRevalidate = quickViewShouldRevalidate;
 
 export async function loader({params, request, context}: LoaderFunctionArgs) {
   const paginationVariables = getPaginationVariables(request, {
@@ -45,18 +45,7 @@ export async function loader({params, request, context}: LoaderFunctionArgs) {
   const {sortKey, reverse} = getSortValuesFromParam(
     searchParams.get('sort') as SortParam,
   );
-  const filters = [...searchParams.entries()].reduce(
-    (filters, [key, value]) => {
-      if (key.startsWith(FILTER_URL_PREFIX)) {
-        const filterKey = key.substring(FILTER_URL_PREFIX.length);
-        filters.push({
-          [filterKey]: JSON.parse(value),
-        });
-      }
-      return filters;
-    },
-    [] as ProductFilter[],
-  );
+  const filters = parseFilterParams(searchParams);
 
   const {collection, collections} = await context.storefront.query(
     COLLECTION_QUERY,
@@ -79,46 +68,12 @@ export async function loader({params, request, context}: LoaderFunctionArgs) {
 
   const seo = seoPayload.collection({collection, url: request.url});
 
-  const allFilterValues = collection.products.filters.flatMap(
-    (filter) => filter.values,
+  const appliedFilters = getAppliedFilters(
+    filters,
+    collection.products.filters,
+    locale,
   );
 
-  const appliedFilters = filters
-    .map((filter) => {
-      const foundValue = allFilterValues.find((value) => {
-        const valueInput = JSON.parse(value.input as string) as ProductFilter;
-        if (valueInput.price && filter.price) {
-          return true;
-        }
-        return (
-          JSON.stringify(valueInput) === JSON.stringify(filter)
-        );
-      });
-      if (!foundValue) {
-        console.error('Could not find filter value for filter', filter);
-        return null;
-      }
-
-      if (foundValue.id === 'filter.v.price') {
-        const input = JSON.parse(foundValue.input as string) as ProductFilter;
-        const min = parseAsCurrency(input.price?.min ?? 0, locale);
-        const max = input.price?.max
-          ? parseAsCurrency(input.price.max, locale)
-          : '';
-        const label = min && max ? `${min} - ${max}` : 'Price';
-
-        return {
-          filter,
-          label,
-        };
-      }
-      return {
-        filter,
-        label: foundValue.label,
-      };
-    })
-    .filter((filter): filter is NonNullable<typeof filter> => filter !== null);
-
   return json({
     collection,
     appliedFilters,
@@ -0,0 +1,411 @@
+import {useEffect} from 'react';
+import {
+  json,
+  type MetaArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import {useLoaderData, useNavigate, useSearchParams} from '@remix-run/react';
+import {getSeoMeta, Image, Money} from '@shopify/hydrogen';
+import clsx from 'clsx';
+
+import type {CompareProductFragment} from 'storefrontapi.generated';
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Link} from '~/components/Link';
+import {AddToCartButton} from '~/components/AddToCartButton';
+import {CACHE_SHORT, routeHeaders} from '~/data/cache';
+import {usePrefixPathWithLocale} from '~/lib/utils';
+import {
+  COMPARE_MAX_ITEMS,
+  getComparePath,
+  getCompareSelection,
+  parseCompareIds,
+  setCompareSelection,
+} from '~/lib/compare';
+
+export const headers = routeHeaders;
+
+/**
+ * Metafields shown as spec rows, in this order. Each one needs a definition
+ * with Storefront API access, otherwise it comes back empty.
+ */
+const COMPARE_METAFIELDS = [
+  {namespace: 'custom', key: 'skill_level', label: 'Skill level'},
+  {namespace: 'custom', key: 'terrain', label: 'Terrain'},
+  {namespace: 'custom', key: 'flex', label: 'Flex'},
+  {namespace: 'custom', key: 'profile', label: 'Profile'},
+  {namespace: 'custom', key: 'material', label: 'Material'},
+];
+
+export async function loader({request, context}: LoaderFunctionArgs) {
+  const {storefront} = context;
+  const searchParams = new URL(request.url).searchParams;
+  const ids = parseCompareIds(searchParams.get('ids'));
+
+  let products: CompareProductFragment[] = [];
+
+  if (ids.length) {
+    const {nodes} = await storefront.query(COMPARE_PRODUCTS_QUERY, {
+      variables: {
+        ids,
+        metafields: COMPARE_METAFIELDS.map(({namespace, key}) => ({
+          namespace,
+          key,
+        })),
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+    });
+
+    products = nodes.filter(
+      (node): node is CompareProductFragment & {__typename: 'Product'} =>
+        node?.__typename === 'Product',
+    );
+  }
+
+  return json(
+    {
+      products,
+      seo: {
+        title: 'Compare products',
+        robots: {noIndex: true, noFollow: false},
+      },
+    },
+    {
+      headers: {
+        'Cache-Control': CACHE_SHORT,
+      },
+    },
+  );
+}
+
+export const meta = ({matches}: MetaArgs<typeof loader>) => {
+  return getSeoMeta(...matches.map((match) => (match.data as any).seo));
+};
+
+type CompareRow = {
+  label: string;
+  values: React.ReactNode[];
+  /** Plain text of each value, used to spot the rows that differ */
+  keys: string[];
+};
+
+export default function Compare() {
+  const {products} = useLoaderData<typeof loader>();
+  const productIds = products.map(({id}) => id);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const comparePath = usePrefixPathWithLocale('/compare');
+
+  // A shared link replaces whatever the shopper had picked so far, while a
+  // bare `/compare` reopens the stored selection
+  const hasIds = searchParams.has('ids');
+  const selectionKey = productIds.join(',');
+  useEffect(() => {
+    if (hasIds) {
+      setCompareSelection(selectionKey ? selectionKey.split(',') : []);
+      return;
+    }
+
+    const storedIds = getCompareSelection();
+    if (storedIds) {
+      navigate(`${comparePath}?ids=${storedIds}`, {replace: true});
+    }
+  }, [hasIds, selectionKey, comparePath, navigate]);
+
+  if (!products.length) {
+    return (
+      <>
+        <PageHeader heading="Compare products" />
+        <Section>
+          <div className="grid gap-4">
+            <Text className="opacity-50">
+              Pick up to {COMPARE_MAX_ITEMS} products to compare them side by
+              side.
+            </Text>
+            <Link
+              to="/products"
+              className="text-sm tracking-[0.2em] uppercase text-violet-600 hover:text-violet-500"
+            >
+              Browse products →
+            </Link>
+          </div>
+        </Section>
+      </>
+    );
+  }
+
+  const rows = getCompareRows(products);
+
+  return (
+    <>
+      <PageHeader heading="Compare products" />
+      <Section>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[40rem] table-fixed border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="w-40" />
+                {products.map((product) => (
+                  <th key={product.id} className="p-4 align-top text-left">
+                    <CompareProductHeader
+                      product={product}
+                      removePath={getComparePath(
+                        productIds.filter((id) => id !== product.id),
+                      )}
+                    />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const differs = new Set(row.keys).size > 1;
+                return (
+                  <tr
+                    key={row.label}
+                    className={clsx(
+                      'border-t border-neutral-200',
+                      differs && 'bg-violet-50',
+                    )}
+                  >
+                    <th
+                      scope="row"
+                      className="p-4 text-left align-top text-xs tracking-[0.15em] uppercase font-medium text-neutral-500"
+                    >
+                      {row.label}
+                      {differs && <span className="sr-only"> (differs)</span>}
+                    </th>
+                    {row.values.map((value, i) => (
+                      <td
+                        key={products[i].id}
+                        className="p-4 align-top text-neutral-900"
+                      >
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </Section>
+    </>
+  );
+}
+
+function CompareProductHeader({
+  product,
+  removePath,
+}: {
+  product: CompareProductFragment;
+  removePath: string;
+}) {
+  const firstVariant = product.variants.nodes[0];
+
+  return (
+    <div className="grid gap-3">
+      <Link to={`/products/${product.handle}`} className="group grid gap-3">
+        <div className="aspect-[3/4] bg-neutral-100 overflow-hidden">
+          {product.featuredImage && (
+            <Image
+              data={product.featuredImage}
+              className="w-full h-full object-cover"
+              sizes="(min-width: 64em) 20vw, 40vw"
+            />
+          )}
+        </div>
+        <span className="font-medium text-neutral-900 group-hover:text-violet-600">
+          {product.title}
+        </span>
+      </Link>
+      {firstVariant?.availableForSale && (
+        <AddToCartButton
+          lines={[{merchandiseId: firstVariant.id, quantity: 1}]}
+          variant="secondary"
+          className="w-full py-2 text-xs"
+        >
+          Add to Cart
+        </AddToCartButton>
+      )}
+      <Link
+        to={removePath}
+        preventScrollReset
+        className="text-xs tracking-[0.15em] uppercase font-normal text-neutral-500 hover:text-neutral-900"
+      >
+        Remove
+      </Link>
+    </div>
+  );
+}
+
+function getCompareRows(products: CompareProductFragment[]): CompareRow[] {
+  const rows: CompareRow[] = [
+    {
+      label: 'Price',
+      values: products.map(({id, priceRange}) => (
+        <PriceRange
+          key={id}
+          min={priceRange.minVariantPrice}
+          max={priceRange.maxVariantPrice}
+        />
+      )),
+      keys: products.map(
+        ({priceRange}) =>
+          `${priceRange.minVariantPrice.amount}-${priceRange.maxVariantPrice.amount}`,
+      ),
+    },
+    {
+      label: 'Vendor',
+      values: products.map(({vendor}) => vendor),
+      keys: products.map(({vendor}) => vendor),
+    },
+    {
+      label: 'Availability',
+      values: products.map(({availableForSale}) =>
+        availableForSale ? 'In stock' : 'Sold out',
+      ),
+      keys: products.map(({availableForSale}) => String(availableForSale)),
+    },
+  ];
+
+  // One row per option name, in the order they first appear
+  const optionNames = Array.from(
+    new Set(
+      products.flatMap(({options}) =>
+        options
+          // Products without variants expose a single "Title" option
+          .filter(({name}) => name !== 'Title')
+          .map(({name}) => name),
+      ),
+    ),
+  );
+
+  for (const name of optionNames) {
+    const values = products.map(
+      ({options}) =>
+        options
+          .find((option) => option.name === name)
+          ?.optionValues.map((value) => value.name)
+          .join(', ') ?? '—',
+    );
+    rows.push({label: name, values, keys: values});
+  }
+
+  for (const {namespace, key, label} of COMPARE_METAFIELDS) {
+    const values = products.map(({metafields}) =>
+      formatMetafieldValue(
+        metafields.find(
+          (metafield) =>
+            metafield?.namespace === namespace && metafield.key === key,
+        ),
+      ),
+    );
+
+    // Skip specs none of the compared products have filled in
+    if (values.every((value) => value === '—')) continue;
+    rows.push({label, values, keys: values});
+  }
+
+  return rows;
+}
+
+function formatMetafieldValue(
+  metafield?: CompareProductFragment['metafields'][number],
+) {
+  if (!metafield?.value) return '—';
+
+  if (metafield.type.startsWith('list.')) {
+    try {
+      const values = JSON.parse(metafield.value);
+      if (Array.isArray(values)) return values.join(', ');
+    } catch (_) {
+      // Fall through to the raw value
+    }
+  }
+
+  if (metafield.type === 'boolean') {
+    return metafield.value === 'true' ? 'Yes' : 'No';
+  }
+
+  return metafield.value;
+}
+
+function PriceRange({
+  min,
+  max,
+}: {
+  min: CompareProductFragment['priceRange']['minVariantPrice'];
+  max: CompareProductFragment['priceRange']['maxVariantPrice'];
+}) {
+  if (min.amount === max.amount) {
+    return <Money data={min} withoutTrailingZeros />;
+  }
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      <Money data={min} withoutTrailingZeros />
+      <span>–</span>
+      <Money data={max} withoutTrailingZeros />
+    </span>
+  );
+}
+
+const COMPARE_PRODUCTS_QUERY = `#graphql
+  query CompareProducts(
+    $ids: [ID!]!
+    $metafields: [HasMetafieldsIdentifier!]!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    nodes(ids: $ids) {
+      __typename
+      ... on Product {
+        ...CompareProduct
+      }
+    }
+  }
+
+  fragment CompareProduct on Product {
+    id
+    title
+    handle
+    vendor
+    availableForSale
+    featuredImage {
+      id
+      url
+      altText
+      width
+      height
+    }
+    priceRange {
+      minVariantPrice {
+        amount
+        currencyCode
+      }
+      maxVariantPrice {
+        amount
+        currencyCode
+      }
+    }
+    options {
+      name
+      optionValues {
+        name
+      }
+    }
+    variants(first: 1) {
+      nodes {
+        id
+        availableForSale
+      }
+    }
+    metafields(identifiers: $metafields) {
+      namespace
+      key
+      type
+      value
+    }
+  }
+` as const;
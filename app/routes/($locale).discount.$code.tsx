@@ -1,13 +1,17 @@
 import {redirect, type LoaderFunctionArgs} from '@shopify/remix-oxygen';
 
+import {mergeDiscountCodes, parseDiscountCodes} from '~/lib/discounts';
+
 /**
- * Automatically applies a discount found on the url
- * If a cart exists it's updated with the discount, otherwise a cart is created with the discount already applied
+ * Automatically applies the discounts found on the url
+ * If a cart exists the discounts are added to the codes already applied, otherwise a cart is created with
+ * the discounts already applied
+ * @param code one or more discount codes, separated by a comma
  * @param ?redirect an optional path to return to otherwise return to the home page
  * @example
- * Example path applying a discount and redirecting
+ * Example path applying two discounts and redirecting
  * ```ts
- * /discount/FREESHIPPING?redirect=/products
+ * /discount/FREESHIPPING,WELCOME10?redirect=/products
  *
  * ```
  * @preserve
@@ -16,7 +20,7 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
   const {cart} = context;
   // N.B. This route will probably be removed in the future.
   const session = context.session as any;
-  const {code} = params;
+  const codes = parseDiscountCodes(params.code);
 
   const url = new URL(request.url);
   const searchParams = new URLSearchParams(url.search);
@@ -33,11 +37,17 @@ export async function loader({request, context, params}: LoaderFunctionArgs) {
 
   const redirectUrl = `${redirectParam}?${searchParams}`;
 
-  if (!code) {
+  if (!codes.length) {
     return redirect(redirectUrl);
   }
 
-  const result = await cart.updateDiscountCodes([code]);
+  const currentCart = await cart.get();
+  const result = await cart.updateDiscountCodes(
+    mergeDiscountCodes(
+      (currentCart?.discountCodes ?? []).map(({code}) => code),
+      codes,
+    ),
+  );
   const headers = cart.setCartId(result.cart.id);
 
   // Using set-cookie on a 303 redirect will not work if the domain origin have port number (:3000)
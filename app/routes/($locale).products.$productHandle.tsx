@@ -4,33 +4,52 @@ import {
   type MetaArgs,
   type LoaderFunctionArgs,
 } from '@shopify/remix-oxygen';
-import {useLoaderData, Await, Link} from '@remix-run/react';
+import {useLoaderData, useNavigate, Await, Link} from '@remix-run/react';
 import {
   getSeoMeta,
   Money,
-  ShopPayButton,
   getSelectedProductOptions,
   Analytics,
   useOptimisticVariant,
   getAdjacentAndFirstAvailableVariants,
   useSelectedOptionInUrlParam,
   getProductOptions,
-  type MappedProductOptions,
   Image,
 } from '@shopify/hydrogen';
 import invariant from 'tiny-invariant';
 import clsx from 'clsx';
-import type {
-  Maybe,
-  ProductOptionValueSwatch,
-} from '@shopify/hydrogen/storefront-api-types';
 
-import type {ProductFragment} from 'storefrontapi.generated';
-import {AddToCartButton} from '~/components/AddToCartButton';
+import type {BundleProductFragment} from 'storefrontapi.generated';
+import {ProductForm} from '~/components/ProductForm';
+import {ProductGallery} from '~/components/ProductGallery';
+import {ProductBundle} from '~/components/ProductBundle';
+import {ProductQuestions} from '~/components/ProductQuestions';
+import {ProductReviews} from '~/components/ProductReviews';
+import {SizeGuide, SpecTable} from '~/components/ProductSpecs';
+import {StarRating} from '~/components/StarRating';
+import {StoreAvailability} from '~/components/StoreAvailability';
+import {WishlistButton} from '~/components/WishlistButton';
+import {RecentlyViewed} from '~/components/RecentlyViewed';
 import {seoPayload} from '~/lib/seo.server';
+import {getLineAttributeFields} from '~/lib/cart-attributes';
+import {
+  getKnownVariants,
+  getMediaOptions,
+  getOtherOptionMedia,
+  getVariantMedia,
+} from '~/lib/product-media';
+import {parseSizeGuide, parseSpecs} from '~/lib/product-specs';
+import {REVIEWS_PAGE_PARAM} from '~/lib/reviews';
+import {getProductReviews} from '~/lib/reviews.server';
 import type {Storefront} from '~/lib/type';
 import {routeHeaders} from '~/data/cache';
-import {MEDIA_FRAGMENT, PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
+import {getFreeShippingThreshold} from '~/data/shipping';
+import {
+  MEDIA_FRAGMENT,
+  PRODUCT_CARD_FRAGMENT,
+  PRODUCT_VARIANT_FRAGMENT,
+  SELLING_PLAN_GROUP_FRAGMENT,
+} from '~/data/fragments';
 
 export const headers = routeHeaders;
 
@@ -59,6 +78,7 @@ async function loadCriticalData({
       variables: {
         handle: productHandle,
         selectedOptions,
+        near: getBuyerCoordinates(request),
         country: context.storefront.i18n.country,
         language: context.storefront.i18n.language,
       },
@@ -70,13 +90,25 @@ async function loadCriticalData({
   }
 
   const recommended = getRecommendedProducts(context.storefront, product.id);
+  // Bundle lines are added without a selling plan, so subscription only
+  // products don't offer one
+  const bundle = product.requiresSellingPlan
+    ? Promise.resolve(null)
+    : getBundle(context.storefront, product.id);
+  const questions = context.questions.listAnswered(product.id);
   const selectedVariant = product.selectedOrFirstAvailableVariant ?? {};
   const variants = getAdjacentAndFirstAvailableVariants(product);
+  const reviews = await getProductReviews(
+    context.reviews,
+    product,
+    Number(new URL(request.url).searchParams.get(REVIEWS_PAGE_PARAM)) || 1,
+  );
 
   const seo = seoPayload.product({
     product: {...product, variants},
     selectedVariant,
     url: request.url,
+    reviews,
   });
 
   return {
@@ -85,10 +117,36 @@ async function loadCriticalData({
     shop,
     storeDomain: shop.primaryDomain.url,
     recommended,
+    bundle,
+    reviews,
+    questions,
+    specs: parseSpecs(product.specs),
+    sizeGuide: parseSizeGuide(product.sizeGuide),
+    measurementSystem: context.storefront.i18n.measurementSystem ?? 'metric',
     seo,
   };
 }
 
+/**
+ * Approximate location of the buyer from the Oxygen geolocation headers,
+ * rounded so nearby buyers share cached responses
+ */
+function getBuyerCoordinates(request: Request) {
+  const latitude = parseFloat(
+    request.headers.get('oxygen-buyer-latitude') ?? '',
+  );
+  const longitude = parseFloat(
+    request.headers.get('oxygen-buyer-longitude') ?? '',
+  );
+
+  if (Number.isNaN(latitude) || Number.isNaN(longitude)) return null;
+
+  return {
+    latitude: Math.round(latitude * 10) / 10,
+    longitude: Math.round(longitude * 10) / 10,
+  };
+}
+
 function loadDeferredData(args: LoaderFunctionArgs) {
   return {};
 }
@@ -98,8 +156,19 @@ export const meta = ({matches}: MetaArgs<typeof loader>) => {
 };
 
 export default function Product() {
-  const {product, shop, recommended, variants, storeDomain} =
-    useLoaderData<typeof loader>();
+  const {
+    product,
+    shop,
+    recommended,
+    bundle,
+    reviews,
+    questions,
+    specs,
+    sizeGuide,
+    measurementSystem,
+    variants,
+    storeDomain,
+  } = useLoaderData<typeof loader>();
   const {media, title, vendor, descriptionHtml} = product;
   const {shippingPolicy, refundPolicy} = shop;
 
@@ -110,12 +179,55 @@ export default function Product() {
 
   useSelectedOptionInUrlParam(selectedVariant.selectedOptions);
 
+  const {currencyCode} = selectedVariant.price;
+  const freeShippingThreshold = getFreeShippingThreshold(currencyCode);
+
   const productOptions = getProductOptions({
     ...product,
     selectedOrFirstAvailableVariant: selectedVariant,
   });
 
-  const [selectedImage, setSelectedImage] = useState(0);
+  const navigate = useNavigate();
+  const mediaOptions = getMediaOptions({
+    media: media.nodes,
+    options: product.options,
+    variants: getKnownVariants(product),
+    mediaGroups: product.mediaGroups?.value,
+  });
+  const galleryMedia = getVariantMedia(
+    media.nodes,
+    mediaOptions,
+    selectedVariant.selectedOptions,
+  );
+
+  // Selects the option values a gallery medium shows, keeping the others
+  const selectOptionMedia = (medium: (typeof media.nodes)[number]) => {
+    const options = mediaOptions.get(medium.id) ?? [];
+    const searchParams = new URLSearchParams(
+      selectedVariant.selectedOptions.map(({name, value}) => [
+        name,
+        options.find((option) => option.name === name)?.value ?? value,
+      ]),
+    );
+
+    navigate(`?${searchParams}`, {replace: true, preventScrollReset: true});
+  };
+
+  const sizeOption = product.options.find(
+    ({name}) => name === sizeGuide?.option,
+  );
+
+  // Selects the size suggested by the size guide, when the product has it
+  const selectSize = (size: string) => {
+    const searchParams = new URLSearchParams(
+      selectedVariant.selectedOptions.map(({name, value}) => [
+        name,
+        name === sizeOption?.name ? size : value,
+      ]),
+    );
+
+    navigate(`?${searchParams}`, {replace: true, preventScrollReset: true});
+  };
 
   return (
     <>
@@ -134,66 +246,22 @@ export default function Product() {
         <div className="max-w-7xl mx-auto px-6 pb-24">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 lg:gap-20">
             {/* Product Gallery */}
-            <div className="space-y-4">
-              {/* Main Image */}
-              <div className="aspect-[3/4] bg-neutral-100 overflow-hidden relative group">
-                {media.nodes[selectedImage] && (
-                  <Image
-                    data={(media.nodes[selectedImage].previewImage || media.nodes[selectedImage]) as any}
-                    className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-                    sizes="(min-width: 1024px) 50vw, 100vw"
-                  />
-                )}
-                
-                {/* Image navigation arrows */}
-                {media.nodes.length > 1 && (
-                  <>
-                    <button
-                      onClick={() => setSelectedImage((prev) => (prev === 0 ? media.nodes.length - 1 : prev - 1))}
-                      className="absolute left-4 top-1/2 -translate-y-1/2 w-10 h-10 bg-black/10 backdrop-blur-sm flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-black/20 text-neutral-900"
-                      aria-label="Previous image"
-                    >
-                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15.75 19.5L8.25 12l7.5-7.5" />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={() => setSelectedImage((prev) => (prev === media.nodes.length - 1 ? 0 : prev + 1))}
-                      className="absolute right-4 top-1/2 -translate-y-1/2 w-10 h-10 bg-black/10 backdrop-blur-sm flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-black/20 text-neutral-900"
-                      aria-label="Next image"
-                    >
-                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8.25 4.5l7.5 7.5-7.5 7.5" />
-                      </svg>
-                    </button>
-                  </>
-                )}
-              </div>
-              
-              {/* Thumbnail gallery */}
-              {media.nodes.length > 1 && (
-                <div className="grid grid-cols-4 gap-2">
-                  {media.nodes.slice(0, 8).map((image: any, i: number) => (
-                    <button
-                      key={image.id || i}
-                      onClick={() => setSelectedImage(i)}
-                      className={clsx(
-                        'aspect-square bg-neutral-100 overflow-hidden transition-all duration-300',
-                        selectedImage === i 
-                          ? 'ring-2 ring-violet-500' 
-                          : 'ring-1 ring-transparent hover:ring-neutral-300'
-                      )}
-                    >
-                      <Image
-                        data={image.previewImage || image}
-                        className="w-full h-full object-cover"
-                        sizes="100px"
-                      />
-                    </button>
-                  ))}
-                </div>
-              )}
-            </div>
+            <ProductGallery
+              media={galleryMedia}
+              title={title}
+              selectedMediaId={
+                galleryMedia.find(({id}) => mediaOptions.has(id))?.id
+              }
+              optionMedia={getOtherOptionMedia(
+                media.nodes,
+                mediaOptions,
+                selectedVariant.selectedOptions,
+              ).map(({medium, options}) => ({
+                medium,
+                label: options.map(({value}) => value).join(' / '),
+              }))}
+              onSelectOptionMedia={selectOptionMedia}
+            />
 
             {/* Product Info */}
             <div className="lg:sticky lg:top-28 lg:self-start space-y-8">
@@ -204,9 +272,20 @@ export default function Product() {
                     {vendor}
                   </span>
                 )}
-                <h1 className="font-display text-3xl md:text-4xl lg:text-5xl leading-tight text-neutral-900">
-                  {title}
-                </h1>
+                <div className="flex items-start justify-between gap-4">
+                  <h1 className="font-display text-3xl md:text-4xl lg:text-5xl leading-tight text-neutral-900">
+                    {title}
+                  </h1>
+                  <WishlistButton productId={product.id} className="mt-2" />
+                </div>
+                {reviews.summary && (
+                  <a href="#reviews" className="inline-block">
+                    <StarRating
+                      rating={reviews.summary.rating}
+                      count={reviews.summary.count}
+                    />
+                  </a>
+                )}
                 <div className="flex items-baseline gap-4">
                   <Money
                     data={selectedVariant.price}
@@ -231,6 +310,14 @@ export default function Product() {
                 productOptions={productOptions}
                 selectedVariant={selectedVariant}
                 storeDomain={storeDomain}
+                lineAttributeFields={getLineAttributeFields(product.tags)}
+                sellingPlanGroups={product.sellingPlanGroups.nodes}
+                requiresSellingPlan={product.requiresSellingPlan}
+              />
+
+              {/* Pickup availability */}
+              <StoreAvailability
+                storeAvailability={selectedVariant.storeAvailability?.nodes}
               />
 
               {/* Product Details Accordion */}
@@ -243,11 +330,47 @@ export default function Product() {
                     />
                   </ProductAccordion>
                 )}
+
+                {specs.length > 0 && (
+                  <ProductAccordion title="Specifications">
+                    <SpecTable
+                      specs={specs}
+                      measurementSystem={measurementSystem}
+                    />
+                  </ProductAccordion>
+                )}
+
+                {sizeGuide && (
+                  <ProductAccordion title="Size & Fit">
+                    <div className="text-sm text-neutral-500 space-y-2">
+                      <p>
+                        Sizes {sizeGuide.sizes.map(({size}) => size).join(', ')}
+                      </p>
+                      <SizeGuide
+                        sizeGuide={sizeGuide}
+                        measurementSystem={measurementSystem}
+                        onSelectSize={sizeOption ? selectSize : undefined}
+                      />
+                    </div>
+                  </ProductAccordion>
+                )}
                 
                 {shippingPolicy?.body && (
                   <ProductAccordion title="Shipping">
                     <div className="text-sm text-neutral-500 space-y-2">
-                      <p>Free shipping on orders over $150</p>
+                      {freeShippingThreshold && (
+                        <p>
+                          Free shipping on orders over{' '}
+                          <Money
+                            as="span"
+                            withoutTrailingZeros
+                            data={{
+                              amount: freeShippingThreshold.toFixed(2),
+                              currencyCode,
+                            }}
+                          />
+                        </p>
+                      )}
                       <p>Standard delivery: 5-7 business days</p>
                       <p>Express delivery: 2-3 business days</p>
                       <Link 
@@ -284,12 +407,24 @@ export default function Product() {
 
               {/* Trust badges */}
               <div className="flex flex-wrap gap-6 pt-6 text-xs text-neutral-500">
-                <div className="flex items-center gap-2">
-                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8.25 18.75a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 01-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 00-3.213-9.193 2.056 2.056 0 00-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.106a48.554 48.554 0 00-10.026 0 1.106 1.106 0 00-.987 1.106v7.635m12-6.677v6.677m0 4.5v-4.5m0 0h-12" />
-                  </svg>
-                  <span>Free shipping over $150</span>
-                </div>
+                {freeShippingThreshold && (
+                  <div className="flex items-center gap-2">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8.25 18.75a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h6m-9 0H3.375a1.125 1.125 0 01-1.125-1.125V14.25m17.25 4.5a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m3 0h1.125c.621 0 1.129-.504 1.09-1.124a17.902 17.902 0 00-3.213-9.193 2.056 2.056 0 00-1.58-.86H14.25M16.5 18.75h-2.25m0-11.177v-.958c0-.568-.422-1.048-.987-1.106a48.554 48.554 0 00-10.026 0 1.106 1.106 0 00-.987 1.106v7.635m12-6.677v6.677m0 4.5v-4.5m0 0h-12" />
+                    </svg>
+                    <span>
+                      Free shipping over{' '}
+                      <Money
+                        as="span"
+                        withoutTrailingZeros
+                        data={{
+                          amount: freeShippingThreshold.toFixed(2),
+                          currencyCode,
+                        }}
+                      />
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
@@ -307,6 +442,38 @@ export default function Product() {
           </div>
         </div>
 
+        <ProductReviews
+          productId={product.id}
+          reviews={reviews.reviews}
+          summary={reviews.summary}
+          page={reviews.page}
+          pageCount={reviews.pageCount}
+        />
+
+        <Suspense fallback={null}>
+          <Await errorElement={null} resolve={questions}>
+            {(questions) => (
+              <ProductQuestions productId={product.id} questions={questions} />
+            )}
+          </Await>
+        </Suspense>
+
+        {/* Bundle, hidden when a component can't be bought */}
+        <Suspense fallback={null}>
+          <Await errorElement={null} resolve={bundle}>
+            {(bundle) =>
+              bundle && (
+                <ProductBundle
+                  title={bundle.title}
+                  productTitle={title}
+                  selectedVariant={selectedVariant}
+                  components={bundle.components}
+                />
+              )
+            }
+          </Await>
+        </Suspense>
+
         {/* Recommended Products */}
         <Suspense fallback={null}>
           <Await
@@ -350,6 +517,8 @@ export default function Product() {
             )}
           </Await>
         </Suspense>
+
+        <RecentlyViewed product={{id: product.id, handle: product.handle}} />
       </div>
 
       <Analytics.ProductView
@@ -401,207 +570,42 @@ function ProductAccordion({
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19.5 8.25l-7.5 7.5-7.5-7.5" />
         </svg>
       </button>
+      {/* Grid rows animate to the content's height, however long it is */}
       <div
         className={clsx(
-          'overflow-hidden transition-all duration-300',
-          isOpen ? 'max-h-96 pt-4' : 'max-h-0'
+          'grid transition-all duration-300',
+          isOpen ? 'grid-rows-[1fr] pt-4' : 'grid-rows-[0fr]'
         )}
       >
-        {children}
+        <div className="overflow-hidden">{children}</div>
       </div>
     </div>
   );
 }
 
-export function ProductForm({
-  productOptions,
-  selectedVariant,
-  storeDomain,
-}: {
-  productOptions: MappedProductOptions[];
-  selectedVariant: ProductFragment['selectedOrFirstAvailableVariant'];
-  storeDomain: string;
-}) {
-  const isOutOfStock = !selectedVariant?.availableForSale;
-
-  const isOnSale =
-    selectedVariant?.price?.amount &&
-    selectedVariant?.compareAtPrice?.amount &&
-    selectedVariant?.price?.amount < selectedVariant?.compareAtPrice?.amount;
-
-  return (
-    <div className="space-y-8">
-      {/* Variant Options */}
-      <div className="space-y-6">
-        {productOptions.map((option) => (
-          <div key={option.name} className="space-y-3">
-            <label className="text-xs tracking-[0.2em] uppercase text-neutral-500 block">
-              {option.name}
-              {option.optionValues.find(v => v.selected) && (
-                <span className="text-neutral-900 ml-2">
-                  — {option.optionValues.find(v => v.selected)?.name}
-                </span>
-              )}
-            </label>
-            <div className="flex flex-wrap gap-2">
-              {option.optionValues.map(
-                ({
-                  isDifferentProduct,
-                  name,
-                  variantUriQuery,
-                  handle,
-                  selected,
-                  available,
-                  swatch,
-                }) => (
-                  <Link
-                    key={option.name + name}
-                    {...(!isDifferentProduct ? {rel: 'nofollow'} : {})}
-                    to={`/products/${handle}?${variantUriQuery}`}
-                    preventScrollReset
-                    prefetch="intent"
-                    replace
-                    className={clsx(
-                      'min-w-[3rem] px-4 py-3 text-sm tracking-wider uppercase border transition-all duration-300',
-                      selected
-                        ? 'bg-neutral-900 text-white border-neutral-900'
-                        : 'bg-transparent text-neutral-700 border-neutral-300 hover:border-violet-600 hover:text-violet-600',
-                      !available && 'opacity-30 cursor-not-allowed relative',
-                    )}
-                  >
-                    {swatch ? (
-                      <ProductOptionSwatch swatch={swatch} name={name} />
-                    ) : (
-                      name
-                    )}
-                    {!available && (
-                      <span className="absolute inset-0 flex items-center justify-center">
-                        <span className="w-full h-px bg-neutral-400 rotate-[-20deg]" />
-                      </span>
-                    )}
-                  </Link>
-                ),
-              )}
-            </div>
-          </div>
-        ))}
-      </div>
-
-      {/* Add to Cart Section */}
-      {selectedVariant && (
-        <div className="space-y-4">
-          {isOutOfStock ? (
-            <button
-              disabled
-              className="w-full py-4 bg-neutral-200 text-neutral-400 text-sm tracking-[0.2em] uppercase cursor-not-allowed"
-            >
-              Sold Out
-            </button>
-          ) : (
-            <AddToCartButton
-              lines={[
-                {
-                  merchandiseId: selectedVariant.id!,
-                  quantity: 1,
-                },
-              ]}
-              variant="primary"
-              data-test="add-to-cart"
-              className="w-full py-4 bg-white text-black text-sm tracking-[0.2em] uppercase font-medium hover:bg-brand-400 transition-all duration-500"
-            >
-              <span className="flex items-center justify-center gap-3">
-                <span>Add to Cart</span>
-                <span className="text-neutral-500">—</span>
-                <Money
-                  withoutTrailingZeros
-                  data={selectedVariant?.price!}
-                  as="span"
-                />
-                {isOnSale && (
-                  <Money
-                    withoutTrailingZeros
-                    data={selectedVariant?.compareAtPrice!}
-                    as="span"
-                    className="opacity-50 line-through"
-                  />
-                )}
-              </span>
-            </AddToCartButton>
-          )}
-          
-          {!isOutOfStock && (
-            <ShopPayButton
-              width="100%"
-              variantIds={[selectedVariant?.id!]}
-              storeDomain={storeDomain}
-            />
-          )}
-        </div>
-      )}
-    </div>
-  );
-}
-
-function ProductOptionSwatch({
-  swatch,
-  name,
-}: {
-  swatch?: Maybe<ProductOptionValueSwatch> | undefined;
-  name: string;
-}) {
-  const image = swatch?.image?.previewImage?.url;
-  const color = swatch?.color;
-
-  if (!image && !color) return <>{name}</>;
-
-  return (
-    <div
-      aria-label={name}
-      className="w-6 h-6 rounded-full border border-neutral-600"
-      style={{
-        backgroundColor: color || 'transparent',
-      }}
-    >
-      {!!image && <img src={image} alt={name} className="w-full h-full object-cover rounded-full" />}
-    </div>
-  );
-}
-
-const PRODUCT_VARIANT_FRAGMENT = `#graphql
-  fragment ProductVariant on ProductVariant {
-    id
-    availableForSale
-    selectedOptions {
-      name
-      value
-    }
-    image {
-      id
-      url
-      altText
-      width
-      height
-    }
-    price {
-      amount
-      currencyCode
-    }
-    compareAtPrice {
-      amount
-      currencyCode
-    }
-    sku
-    title
-    unitPrice {
-      amount
-      currencyCode
-    }
-    product {
-      title
-      handle
+/**
+ * Pickup locations of a variant, closest to `$near` first when the buyer's
+ * location is known
+ */
+const STORE_AVAILABILITY_FRAGMENT = `#graphql
+  fragment StoreAvailability on ProductVariant {
+    storeAvailability(first: 5, near: $near) {
+      nodes {
+        available
+        pickUpTime
+        quantityAvailable
+        location {
+          id
+          name
+          address {
+            city
+            formatted
+          }
+        }
+      }
     }
   }
-`;
+` as const;
 
 const PRODUCT_FRAGMENT = `#graphql
   fragment Product on Product {
@@ -609,6 +613,7 @@ const PRODUCT_FRAGMENT = `#graphql
     title
     vendor
     handle
+    tags
     descriptionHtml
     description
     encodedVariantExistence
@@ -632,9 +637,53 @@ const PRODUCT_FRAGMENT = `#graphql
     }
     selectedOrFirstAvailableVariant(selectedOptions: $selectedOptions, ignoreUnknownOptions: true, caseInsensitiveMatch: true) {
       ...ProductVariant
+      ...StoreAvailability
     }
     adjacentVariants (selectedOptions: $selectedOptions) {
       ...ProductVariant
+      ...StoreAvailability
+    }
+    mediaGroups: metafield(namespace: "custom", key: "media_groups") {
+      value
+    }
+    reviews: metafield(namespace: "custom", key: "reviews") {
+      value
+    }
+    rating: metafield(namespace: "reviews", key: "rating") {
+      value
+    }
+    ratingCount: metafield(namespace: "reviews", key: "rating_count") {
+      value
+    }
+    specs: metafield(namespace: "custom", key: "specs") {
+      value
+      references(first: 20) {
+        nodes {
+          ... on Metaobject {
+            fields {
+              key
+              value
+            }
+          }
+        }
+      }
+    }
+    sizeGuide: metafield(namespace: "custom", key: "size_guide") {
+      value
+      reference {
+        ... on Metaobject {
+          fields {
+            key
+            value
+          }
+        }
+      }
+    }
+    requiresSellingPlan
+    sellingPlanGroups(first: 10) {
+      nodes {
+        ...SellingPlanGroup
+      }
     }
     seo {
       description
@@ -647,6 +696,8 @@ const PRODUCT_FRAGMENT = `#graphql
     }
   }
   ${PRODUCT_VARIANT_FRAGMENT}
+  ${SELLING_PLAN_GROUP_FRAGMENT}
+  ${STORE_AVAILABILITY_FRAGMENT}
 ` as const;
 
 const PRODUCT_QUERY = `#graphql
@@ -655,6 +706,7 @@ const PRODUCT_QUERY = `#graphql
     $language: LanguageCode
     $handle: String!
     $selectedOptions: [SelectedOptionInput!]!
+    $near: GeoCoordinateInput
   ) @inContext(country: $country, language: $language) {
     product(handle: $handle) {
       ...Product
@@ -697,6 +749,127 @@ const RECOMMENDED_PRODUCTS_QUERY = `#graphql
   ${PRODUCT_CARD_FRAGMENT}
 ` as const;
 
+const BUNDLE_PRODUCT_FRAGMENT = `#graphql
+  fragment BundleProduct on Product {
+    id
+    title
+    handle
+    availableForSale
+    requiresSellingPlan
+    variants(first: 20) {
+      nodes {
+        id
+        title
+        availableForSale
+        price {
+          amount
+          currencyCode
+        }
+        compareAtPrice {
+          amount
+          currencyCode
+        }
+        image {
+          id
+          url
+          altText
+          width
+          height
+        }
+      }
+    }
+  }
+` as const;
+
+const BUNDLE_QUERY = `#graphql
+  query ProductBundle(
+    $productId: ID!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    product(id: $productId) {
+      bundleComponents: metafield(namespace: "custom", key: "bundle_components") {
+        value
+        references(first: 10) {
+          nodes {
+            ... on Product {
+              ...BundleProduct
+            }
+          }
+        }
+      }
+    }
+    productRecommendations(productId: $productId, intent: COMPLEMENTARY) {
+      ...BundleProduct
+    }
+  }
+  ${BUNDLE_PRODUCT_FRAGMENT}
+` as const;
+
+const MAX_RECOMMENDED_BUNDLE_COMPONENTS = 2;
+
+/**
+ * Components of the product's kit, from its `custom.bundle_components`
+ * product list metafield or else its complementary recommendations. Returns
+ * `null` when a component isn't sold in the current country or only sold as a
+ * subscription, since only the whole kit is offered.
+ */
+async function getBundle(storefront: Storefront, productId: string) {
+  const {product, productRecommendations} = await storefront.query(
+    BUNDLE_QUERY,
+    {
+      variables: {
+        productId,
+        country: storefront.i18n.country,
+        language: storefront.i18n.language,
+      },
+      cache: storefront.CacheShort(),
+    },
+  );
+
+  const metafield = product?.bundleComponents;
+
+  if (metafield) {
+    const componentIds = parseJSON<string[]>(metafield.value) ?? [];
+    const components = (metafield.references?.nodes ?? []).filter(
+      (node): node is BundleProductFragment => 'id' in node,
+    );
+
+    // Products that aren't published in the market are left out of the references
+    if (
+      !components.length ||
+      components.length < componentIds.length ||
+      components.some(
+        ({availableForSale, requiresSellingPlan}) =>
+          !availableForSale || requiresSellingPlan,
+      )
+    ) {
+      return null;
+    }
+
+    return {title: 'Complete the kit', components};
+  }
+
+  const components = (productRecommendations ?? [])
+    .filter(
+      ({availableForSale, requiresSellingPlan}) =>
+        availableForSale && !requiresSellingPlan,
+    )
+    .slice(0, MAX_RECOMMENDED_BUNDLE_COMPONENTS);
+
+  return components.length
+    ? {title: 'Frequently bought together', components}
+    : null;
+}
+
+function parseJSON<T>(value: string) {
+  try {
+    return JSON.parse(value) as T;
+  } catch (_) {
+    return null;
+  }
+}
+
 async function getRecommendedProducts(
   storefront: Storefront,
   productId: string,
@@ -17,21 +17,27 @@ import {Grid} from '~/components/Grid';
 import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
 import {getImageLoadingPriority} from '~/lib/const';
 import {seoPayload} from '~/lib/seo.server';
+import {getProductSearchQuery, parseFilterParams} from '~/lib/filters';
+import {quickViewShouldRevalidate} from '~/lib/quick-view';
+import {withReviewSummaries} from '~/lib/reviews.server';
 import {routeHeaders} from '~/data/cache';
 
 const PAGE_BY = 8;
 
 export const headers = routeHeaders;
+export const shouldRevalidate = quickViewShouldRevalidate;
 
 export async function loader({
   request,
-  context: {storefront},
+  context: {storefront, reviews},
 }: LoaderFunctionArgs) {
   const variables = getPaginationVariables(request, {pageBy: PAGE_BY});
+  const filters = parseFilterParams(new URL(request.url).searchParams);
 
   const data = await storefront.query(ALL_PRODUCTS_QUERY, {
     variables: {
       ...variables,
+      query: getProductSearchQuery(filters) || null,
       country: storefront.i18n.country,
       language: storefront.i18n.language,
     },
@@ -58,7 +64,10 @@ export async function loader({
   });
 
   return json({
-    products: data.products,
+    products: {
+      ...data.products,
+      nodes: await withReviewSummaries(reviews, data.products.nodes),
+    },
     seo,
   });
 }
@@ -107,15 +116,22 @@ export default function AllProducts() {
 }
 
 const ALL_PRODUCTS_QUERY = `#graphql
-  query AllProducts(
+  query PaginatedProducts(
     $country: CountryCode
     $language: LanguageCode
     $first: Int
     $last: Int
     $startCursor: String
     $endCursor: String
+    $query: String
   ) @inContext(country: $country, language: $language) {
-    products(first: $first, last: $last, before: $startCursor, after: $endCursor) {
+    products(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $query
+    ) {
       nodes {
         ...ProductCard
       }
@@ -5,6 +5,11 @@ import {
 } from '@shopify/remix-oxygen';
 import {Await, Form, useLoaderData} from '@remix-run/react';
 import {Suspense} from 'react';
+import type {
+  Filter,
+  ProductFilter,
+  SearchSortKeys,
+} from '@shopify/hydrogen/storefront-api-types';
 import {
   Pagination,
   getPaginationVariables,
@@ -18,31 +23,58 @@ import {Grid} from '~/components/Grid';
 import {ProductCard} from '~/components/ProductCard';
 import {ProductSwimlane} from '~/components/ProductSwimlane';
 import {FeaturedCollections} from '~/components/FeaturedCollections';
+import {RecentlyViewed} from '~/components/RecentlyViewed';
+import {
+  SEARCH_SORT_OPTIONS,
+  SortFilter,
+  type SortParam,
+} from '~/components/SortFilter';
 import {PRODUCT_CARD_FRAGMENT} from '~/data/fragments';
 import {getImageLoadingPriority, PAGINATION_SIZE} from '~/lib/const';
 import {seoPayload} from '~/lib/seo.server';
+import {
+  getAppliedFilters,
+  getProductSearchQuery,
+  parseFilterParams,
+} from '~/lib/filters';
+import {quickViewShouldRevalidate} from '~/lib/quick-view';
+import {withReviewSummaries} from '~/lib/reviews.server';
+import type {Storefront} from '~/lib/type';
 
 import {
   getFeaturedData,
   type FeaturedData,
 } from './($locale).featured-products';
 
+export const shouldRevalidate = quickViewShouldRevalidate;
+
 export async function loader({
   request,
-  context: {storefront},
+  context: {storefront, reviews},
 }: LoaderFunctionArgs) {
   const searchParams = new URL(request.url).searchParams;
   const searchTerm = searchParams.get('q')!;
   const variables = getPaginationVariables(request, {pageBy: 8});
+  const locale = storefront.i18n;
 
-  const {products} = await storefront.query(SEARCH_QUERY, {
-    variables: {
-      searchTerm,
-      ...variables,
-      country: storefront.i18n.country,
-      language: storefront.i18n.language,
-    },
-  });
+  const sortParam = searchParams.get('sort') as SortParam | null;
+  const filters = parseFilterParams(searchParams);
+
+  const {products, productFilters} =
+    sortParam === 'newest'
+      ? await getNewestProducts(storefront, {
+          searchTerm: searchTerm ?? '',
+          filters,
+          variables,
+        })
+      : await getSearchProducts(storefront, {
+          searchTerm: searchTerm ?? '',
+          filters,
+          sortParam,
+          variables,
+        });
+
+  const appliedFilters = getAppliedFilters(filters, productFilters, locale);
 
   const shouldGetRecommendations = !searchTerm || products?.nodes?.length === 0;
 
@@ -67,7 +99,12 @@ export async function loader({
   return defer({
     seo,
     searchTerm,
-    products,
+    products: {
+      ...products,
+      nodes: await withReviewSummaries(reviews, products.nodes),
+    },
+    productFilters,
+    appliedFilters,
     noResultRecommendations: shouldGetRecommendations
       ? getNoResultRecommendations(storefront)
       : Promise.resolve(null),
@@ -79,9 +116,15 @@ export const meta = ({matches}: MetaArgs<typeof loader>) => {
 };
 
 export default function Search() {
-  const {searchTerm, products, noResultRecommendations} =
-    useLoaderData<typeof loader>();
+  const {
+    searchTerm,
+    products,
+    productFilters,
+    appliedFilters,
+    noResultRecommendations,
+  } = useLoaderData<typeof loader>();
   const noResults = products?.nodes?.length === 0;
+  const hasAppliedFilters = appliedFilters.length > 0;
 
   return (
     <>
@@ -102,40 +145,52 @@ export default function Search() {
           </button>
         </Form>
       </PageHeader>
-      {!searchTerm || noResults ? (
+      {!searchTerm || (noResults && !hasAppliedFilters) ? (
         <NoResults
           noResults={noResults}
           recommendations={noResultRecommendations}
         />
       ) : (
         <Section>
-          <Pagination connection={products}>
-            {({nodes, isLoading, NextLink, PreviousLink}) => {
-              const itemsMarkup = nodes.map((product, i) => (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  loading={getImageLoadingPriority(i)}
-                />
-              ));
-
-              return (
-                <>
-                  <div className="flex items-center justify-center mt-6">
-                    <PreviousLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
-                      {isLoading ? 'Loading...' : 'Previous'}
-                    </PreviousLink>
-                  </div>
-                  <Grid data-test="product-grid">{itemsMarkup}</Grid>
-                  <div className="flex items-center justify-center mt-6">
-                    <NextLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
-                      {isLoading ? 'Loading...' : 'Next'}
-                    </NextLink>
-                  </div>
-                </>
-              );
-            }}
-          </Pagination>
+          <SortFilter
+            filters={productFilters as Filter[]}
+            appliedFilters={appliedFilters}
+            sortOptions={SEARCH_SORT_OPTIONS}
+          >
+            {noResults ? (
+              <Text className="opacity-50 py-8">
+                No results match the selected filters.
+              </Text>
+            ) : (
+              <Pagination connection={products}>
+                {({nodes, isLoading, NextLink, PreviousLink}) => {
+                  const itemsMarkup = nodes.map((product, i) => (
+                    <ProductCard
+                      key={product.id}
+                      product={product}
+                      loading={getImageLoadingPriority(i)}
+                    />
+                  ));
+
+                  return (
+                    <>
+                      <div className="flex items-center justify-center mt-6">
+                        <PreviousLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
+                          {isLoading ? 'Loading...' : 'Previous'}
+                        </PreviousLink>
+                      </div>
+                      <Grid data-test="product-grid">{itemsMarkup}</Grid>
+                      <div className="flex items-center justify-center mt-6">
+                        <NextLink className="inline-block rounded font-medium text-center py-3 px-6 border border-primary/10 bg-contrast text-primary w-full">
+                          {isLoading ? 'Loading...' : 'Next'}
+                        </NextLink>
+                      </div>
+                    </>
+                  );
+                }}
+              </Pagination>
+            )}
+          </SortFilter>
         </Section>
       )}
       <Analytics.SearchView data={{searchTerm, searchResults: products}} />
@@ -183,6 +238,7 @@ function NoResults({
           }}
         </Await>
       </Suspense>
+      <RecentlyViewed />
     </>
   );
 }
@@ -193,23 +249,164 @@ export function getNoResultRecommendations(
   return getFeaturedData(storefront, {pageBy: PAGINATION_SIZE});
 }
 
+type SearchOptions = {
+  searchTerm: string;
+  filters: ProductFilter[];
+  variables: ReturnType<typeof getPaginationVariables>;
+};
+
+async function getSearchProducts(
+  storefront: Storefront,
+  {
+    searchTerm,
+    filters,
+    sortParam,
+    variables,
+  }: SearchOptions & {sortParam: SortParam | null},
+) {
+  const {sortKey, reverse} = getSortValuesFromParam(sortParam);
+
+  const {search} = await storefront.query(SEARCH_QUERY, {
+    variables: {
+      searchTerm,
+      filters,
+      sortKey,
+      reverse,
+      ...variables,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  const productNodes = search.nodes.filter(
+    (node): node is Extract<typeof node, {__typename: 'Product'}> =>
+      node.__typename === 'Product',
+  );
+
+  return {
+    products: {nodes: productNodes, pageInfo: search.pageInfo},
+    productFilters: search.productFilters,
+  };
+}
+
+/**
+ * `search` can't sort by date, so the newest results come from the
+ * `products` query, with the filters translated to its search syntax. The
+ * filter options still come from `search`.
+ */
+async function getNewestProducts(
+  storefront: Storefront,
+  {searchTerm, filters, variables}: SearchOptions,
+) {
+  const productQuery = [
+    searchTerm && `(${searchTerm})`,
+    getProductSearchQuery(filters),
+  ]
+    .filter(Boolean)
+    .join(' AND ');
+
+  const {search, products} = await storefront.query(NEWEST_SEARCH_QUERY, {
+    variables: {
+      searchTerm,
+      productQuery,
+      filters,
+      ...variables,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  return {products, productFilters: search.productFilters};
+}
+
+const SEARCH_FILTER_FRAGMENT = `#graphql
+  fragment SearchFilter on Filter {
+    id
+    label
+    type
+    values {
+      id
+      label
+      count
+      input
+    }
+  }
+` as const;
+
 const SEARCH_QUERY = `#graphql
   query PaginatedProductsSearch(
     $country: CountryCode
     $endCursor: String
+    $filters: [ProductFilter!]
     $first: Int
     $language: LanguageCode
     $last: Int
-    $searchTerm: String
+    $reverse: Boolean
+    $searchTerm: String!
+    $sortKey: SearchSortKeys
     $startCursor: String
   ) @inContext(country: $country, language: $language) {
-    products(
+    search(
       first: $first,
       last: $last,
       before: $startCursor,
       after: $endCursor,
-      sortKey: RELEVANCE,
+      types: [PRODUCT],
+      sortKey: $sortKey,
+      reverse: $reverse,
+      productFilters: $filters,
+      query: $searchTerm
+    ) {
+      productFilters {
+        ...SearchFilter
+      }
+      nodes {
+        __typename
+        ...ProductCard
+      }
+      pageInfo {
+        startCursor
+        endCursor
+        hasNextPage
+        hasPreviousPage
+      }
+    }
+  }
+
+  ${PRODUCT_CARD_FRAGMENT}
+  ${SEARCH_FILTER_FRAGMENT}
+` as const;
+
+const NEWEST_SEARCH_QUERY = `#graphql
+  query NewestProductsSearch(
+    $country: CountryCode
+    $endCursor: String
+    $filters: [ProductFilter!]
+    $first: Int
+    $language: LanguageCode
+    $last: Int
+    $productQuery: String!
+    $searchTerm: String!
+    $startCursor: String
+  ) @inContext(country: $country, language: $language) {
+    search(
+      first: 1,
+      types: [PRODUCT],
+      productFilters: $filters,
       query: $searchTerm
+    ) {
+      productFilters {
+        ...SearchFilter
+      }
+    }
+    products(
+      first: $first,
+      last: $last,
+      before: $startCursor,
+      after: $endCursor,
+      query: $productQuery,
+      sortKey: CREATED_AT,
+      reverse: true
     ) {
       nodes {
         ...ProductCard
@@ -224,4 +421,28 @@ const SEARCH_QUERY = `#graphql
   }
 
   ${PRODUCT_CARD_FRAGMENT}
+  ${SEARCH_FILTER_FRAGMENT}
 ` as const;
+
+function getSortValuesFromParam(sortParam: SortParam | null): {
+  sortKey: SearchSortKeys;
+  reverse: boolean;
+} {
+  switch (sortParam) {
+    case 'price-high-low':
+      return {
+        sortKey: 'PRICE',
+        reverse: true,
+      };
+    case 'price-low-high':
+      return {
+        sortKey: 'PRICE',
+        reverse: false,
+      };
+    default:
+      return {
+        sortKey: 'RELEVANCE',
+        reverse: false,
+      };
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  json,
+  type MetaArgs,
+  type LoaderFunctionArgs,
+} from '@shopify/remix-oxygen';
+import {useLoaderData} from '@remix-run/react';
+import {getSeoMeta} from '@shopify/hydrogen';
+
+import {PageHeader, Section, Text} from '~/components/Text';
+import {Grid} from '~/components/Grid';
+import {Link} from '~/components/Link';
+import {ProductCard} from '~/components/ProductCard';
+import {WishlistButton} from '~/components/WishlistButton';
+import {CACHE_NONE} from '~/data/cache';
+import {getImageLoadingPriority} from '~/lib/const';
+import {getWishlist, getWishlistItems} from '~/lib/wishlist.server';
+
+export async function loader({context}: LoaderFunctionArgs) {
+  const productIds = await getWishlist(context);
+  const items = await getWishlistItems(context.storefront, productIds);
+
+  return json(
+    {
+      items,
+      seo: {
+        title: 'Wishlist',
+        robots: {noIndex: true, noFollow: true},
+      },
+    },
+    {
+      headers: {
+        'Cache-Control': CACHE_NONE,
+      },
+    },
+  );
+}
+
+export const meta = ({matches}: MetaArgs<typeof loader>) => {
+  return getSeoMeta(...matches.map((match) => (match.data as any).seo));
+};
+
+export default function Wishlist() {
+  const {items} = useLoaderData<typeof loader>();
+
+  return (
+    <>
+      <PageHeader heading="Wishlist" />
+      <Section>
+        {items.length === 0 ? (
+          <div className="grid gap-4">
+            <Text className="opacity-50">
+              Nothing saved yet. Tap the heart on a product to keep it here.
+            </Text>
+            <Link
+              to="/products"
+              className="text-sm tracking-[0.2em] uppercase text-violet-600 hover:text-violet-500"
+            >
+              Browse products →
+            </Link>
+          </div>
+        ) : (
+          <Grid data-test="wishlist-grid">
+            {items.map((item, i) =>
+              item.product ? (
+                <ProductCard
+                  key={item.id}
+                  product={item.product}
+                  label={item.status === 'sold-out' ? 'Sold out' : undefined}
+                  loading={getImageLoadingPriority(i)}
+                  quickAdd
+                />
+              ) : (
+                <div
+                  key={item.id}
+                  className="relative flex flex-col items-center justify-center gap-2 aspect-[3/4] bg-neutral-100 p-6 text-center"
+                >
+                  <Text className="text-sm text-neutral-500">
+                    This product is no longer available.
+                  </Text>
+                  <WishlistButton
+                    productId={item.id}
+                    className="absolute top-3 left-3"
+                  />
+                </div>
+              ),
+            )}
+          </Grid>
+        )}
+      </Section>
+    </>
+  );
+}
@@ -248,6 +248,77 @@ export type CustomerDetailsQuery = {
   };
 };
 
+export type CustomerMetafieldQueryVariables = CustomerAccountAPI.Exact<{
+  namespace: CustomerAccountAPI.Scalars['String']['input'];
+  key: CustomerAccountAPI.Scalars['String']['input'];
+}>;
+
+export type CustomerMetafieldQuery = {
+  customer: Pick<CustomerAccountAPI.Customer, 'id'> & {
+    metafield?: CustomerAccountAPI.Maybe<
+      Pick<CustomerAccountAPI.Metafield, 'value'>
+    >;
+  };
+};
+
+export type CustomerMetafieldsQueryVariables = CustomerAccountAPI.Exact<{
+  identifiers:
+    | Array<CustomerAccountAPI.HasMetafieldsIdentifier>
+    | CustomerAccountAPI.HasMetafieldsIdentifier;
+}>;
+
+export type CustomerMetafieldsQuery = {
+  customer: Pick<CustomerAccountAPI.Customer, 'id'> & {
+    metafields: Array<
+      CustomerAccountAPI.Maybe<
+        Pick<CustomerAccountAPI.Metafield, 'namespace' | 'key' | 'value'>
+      >
+    >;
+  };
+};
+
+export type CustomerMetafieldsSetMutationVariables = CustomerAccountAPI.Exact<{
+  metafields:
+    | Array<CustomerAccountAPI.MetafieldsSetInput>
+    | CustomerAccountAPI.MetafieldsSetInput;
+}>;
+
+export type CustomerMetafieldsSetMutation = {
+  metafieldsSet?: CustomerAccountAPI.Maybe<{
+    userErrors: Array<
+      Pick<
+        CustomerAccountAPI.MetafieldsSetUserError,
+        'code' | 'field' | 'message'
+      >
+    >;
+  }>;
+};
+
+export type CustomerOrderProductsQueryVariables = CustomerAccountAPI.Exact<{
+  first: CustomerAccountAPI.Scalars['Int']['input'];
+  after?: CustomerAccountAPI.InputMaybe<
+    CustomerAccountAPI.Scalars['String']['input']
+  >;
+}>;
+
+export type CustomerOrderProductsQuery = {
+  customer: Pick<
+    CustomerAccountAPI.Customer,
+    'id' | 'firstName' | 'lastName'
+  > & {
+    orders: {
+      nodes: Array<
+        Pick<CustomerAccountAPI.Order, 'id'> & {
+          lineItems: {
+            nodes: Array<Pick<CustomerAccountAPI.LineItem, 'productId'>>;
+          };
+        }
+      >;
+      pageInfo: Pick<CustomerAccountAPI.PageInfo, 'hasNextPage' | 'endCursor'>;
+    };
+  };
+};
+
 export type OrderMoneyFragment = Pick<
   CustomerAccountAPI.MoneyV2,
   'amount' | 'currencyCode'
@@ -296,6 +367,23 @@ export type OrderLineItemFullFragment = Pick<
       'altText' | 'height' | 'url' | 'id' | 'width'
     >
   >;
+  sellingPlan?: CustomerAccountAPI.Maybe<
+    Pick<CustomerAccountAPI.LineItemSellingPlan, 'name'>
+  >;
+};
+
+export type OrderSubscriptionContractFragment = Pick<
+  CustomerAccountAPI.SubscriptionContract,
+  'id' | 'status' | 'nextBillingDate'
+> & {
+  deliveryPolicy: Pick<
+    CustomerAccountAPI.SubscriptionDeliveryPolicy,
+    'interval'
+  > & {
+    intervalCount?: CustomerAccountAPI.Maybe<
+      Pick<CustomerAccountAPI.Count, 'count'>
+    >;
+  };
 };
 
 export type OrderFragment = Pick<
@@ -365,9 +453,29 @@ export type OrderFragment = Pick<
             'altText' | 'height' | 'url' | 'id' | 'width'
           >
         >;
+        sellingPlan?: CustomerAccountAPI.Maybe<
+          Pick<CustomerAccountAPI.LineItemSellingPlan, 'name'>
+        >;
       }
     >;
   };
+  subscriptionContracts?: CustomerAccountAPI.Maybe<{
+    nodes: Array<
+      Pick<
+        CustomerAccountAPI.SubscriptionContract,
+        'id' | 'status' | 'nextBillingDate'
+      > & {
+        deliveryPolicy: Pick<
+          CustomerAccountAPI.SubscriptionDeliveryPolicy,
+          'interval'
+        > & {
+          intervalCount?: CustomerAccountAPI.Maybe<
+            Pick<CustomerAccountAPI.Count, 'count'>
+          >;
+        };
+      }
+    >;
+  }>;
 };
 
 export type OrderQueryVariables = CustomerAccountAPI.Exact<{
@@ -445,9 +553,29 @@ export type OrderQuery = {
                 'altText' | 'height' | 'url' | 'id' | 'width'
               >
             >;
+            sellingPlan?: CustomerAccountAPI.Maybe<
+              Pick<CustomerAccountAPI.LineItemSellingPlan, 'name'>
+            >;
           }
         >;
       };
+      subscriptionContracts?: CustomerAccountAPI.Maybe<{
+        nodes: Array<
+          Pick<
+            CustomerAccountAPI.SubscriptionContract,
+            'id' | 'status' | 'nextBillingDate'
+          > & {
+            deliveryPolicy: Pick<
+              CustomerAccountAPI.SubscriptionDeliveryPolicy,
+              'interval'
+            > & {
+              intervalCount?: CustomerAccountAPI.Maybe<
+                Pick<CustomerAccountAPI.Count, 'count'>
+              >;
+            };
+          }
+        >;
+      }>;
     }
   >;
 };
@@ -472,7 +600,19 @@ interface GeneratedQueryTypes {
     return: CustomerDetailsQuery;
     variables: CustomerDetailsQueryVariables;
   };
-  '#graphql\n  fragment OrderMoney on MoneyV2 {\n    amount\n    currencyCode\n  }\n  fragment DiscountApplication on DiscountApplication {\n    value {\n      __typename\n      ... on MoneyV2 {\n        ...OrderMoney\n      }\n      ... on PricingPercentageValue {\n        percentage\n      }\n    }\n  }\n  fragment OrderLineItemFull on LineItem {\n    id\n    title\n    quantity\n    price {\n      ...OrderMoney\n    }\n    discountAllocations {\n      allocatedAmount {\n        ...OrderMoney\n      }\n      discountApplication {\n        ...DiscountApplication\n      }\n    }\n    totalDiscount {\n      ...OrderMoney\n    }\n    image {\n      altText\n      height\n      url\n      id\n      width\n    }\n    variantTitle\n  }\n  fragment Order on Order {\n    id\n    name\n    statusPageUrl\n    processedAt\n    fulfillments(first: 1) {\n      nodes {\n        status\n      }\n    }\n    totalTax {\n      ...OrderMoney\n    }\n    totalPrice {\n      ...OrderMoney\n    }\n    subtotal {\n      ...OrderMoney\n    }\n    shippingAddress {\n      name\n      formatted(withName: true)\n      formattedArea\n    }\n    discountApplications(first: 100) {\n      nodes {\n        ...DiscountApplication\n      }\n    }\n    lineItems(first: 100) {\n      nodes {\n        ...OrderLineItemFull\n      }\n    }\n  }\n  query Order($orderId: ID!) {\n    order(id: $orderId) {\n      ... on Order {\n        ...Order\n      }\n    }\n  }\n': {
+  '#graphql\n  query CustomerMetafield($namespace: String!, $key: String!) {\n    customer {\n      id\n      metafield(namespace: $namespace, key: $key) {\n        value\n      }\n    }\n  }\n': {
+    return: CustomerMetafieldQuery;
+    variables: CustomerMetafieldQueryVariables;
+  };
+  '#graphql\n  query CustomerMetafields($identifiers: [HasMetafieldsIdentifier!]!) {\n    customer {\n      id\n      metafields(identifiers: $identifiers) {\n        namespace\n        key\n        value\n      }\n    }\n  }\n': {
+    return: CustomerMetafieldsQuery;
+    variables: CustomerMetafieldsQueryVariables;
+  };
+  '#graphql\n  query CustomerOrderProducts($first: Int!, $after: String) {\n    customer {\n      id\n      firstName\n      lastName\n      orders(first: $first, after: $after, sortKey: PROCESSED_AT, reverse: true) {\n        nodes {\n          id\n          lineItems(first: 50) {\n            nodes {\n              productId\n            }\n          }\n        }\n        pageInfo {\n          hasNextPage\n          endCursor\n        }\n      }\n    }\n  }\n': {
+    return: CustomerOrderProductsQuery;
+    variables: CustomerOrderProductsQueryVariables;
+  };
+  '#graphql\n  fragment OrderMoney on MoneyV2 {\n    amount\n    currencyCode\n  }\n  fragment DiscountApplication on DiscountApplication {\n    value {\n      __typename\n      ... on MoneyV2 {\n        ...OrderMoney\n      }\n      ... on PricingPercentageValue {\n        percentage\n      }\n    }\n  }\n  fragment OrderLineItemFull on LineItem {\n    id\n    title\n    quantity\n    price {\n      ...OrderMoney\n    }\n    discountAllocations {\n      allocatedAmount {\n        ...OrderMoney\n      }\n      discountApplication {\n        ...DiscountApplication\n      }\n    }\n    totalDiscount {\n      ...OrderMoney\n    }\n    image {\n      altText\n      height\n      url\n      id\n      width\n    }\n    variantTitle\n    sellingPlan {\n      name\n    }\n  }\n  fragment OrderSubscriptionContract on SubscriptionContract {\n    id\n    status\n    nextBillingDate\n    deliveryPolicy {\n      interval\n      intervalCount {\n        count\n      }\n    }\n  }\n  fragment Order on Order {\n    id\n    name\n    statusPageUrl\n    processedAt\n    fulfillments(first: 1) {\n      nodes {\n        status\n      }\n    }\n    totalTax {\n      ...OrderMoney\n    }\n    totalPrice {\n      ...OrderMoney\n    }\n    subtotal {\n      ...OrderMoney\n    }\n    shippingAddress {\n      name\n      formatted(withName: true)\n      formattedArea\n    }\n    discountApplications(first: 100) {\n      nodes {\n        ...DiscountApplication\n      }\n    }\n    lineItems(first: 100) {\n      nodes {\n        ...OrderLineItemFull\n      }\n    }\n    subscriptionContracts(first: 10) {\n      nodes {\n        ...OrderSubscriptionContract\n      }\n    }\n  }\n  query Order($orderId: ID!) {\n    order(id: $orderId) {\n      ... on Order {\n        ...Order\n      }\n    }\n  }\n': {
     return: OrderQuery;
     variables: OrderQueryVariables;
   };
@@ -491,6 +631,10 @@ interface GeneratedMutationTypes {
     return: CustomerAddressCreateMutation;
     variables: CustomerAddressCreateMutationVariables;
   };
+  '#graphql\n  mutation customerMetafieldsSet($metafields: [MetafieldsSetInput!]!) {\n    metafieldsSet(metafields: $metafields) {\n      userErrors {\n        code\n        field\n        message\n      }\n    }\n  }\n': {
+    return: CustomerMetafieldsSetMutation;
+    variables: CustomerMetafieldsSetMutationVariables;
+  };
   '#graphql\nmutation customerUpdate($customer: CustomerUpdateInput!) {\n  customerUpdate(input: $customer) {\n    userErrors {\n      code\n      field\n      message\n    }\n  }\n}\n': {
     return: CustomerUpdateMutation;
     variables: CustomerUpdateMutationVariables;
@@ -9,6 +9,11 @@ import type {
 } from '@shopify/hydrogen';
 import type {Storefront, CustomerAccount} from '~/lib/type';
 import type {AppSession} from '~/lib/session.server';
+import type {BackInStockStorage} from '~/lib/back-in-stock.server';
+import type {GuestListStorage} from '~/lib/guest-lists.server';
+import type {KeyValueStore} from '~/lib/kv.server';
+import type {ReviewStorage} from '~/lib/reviews.server';
+import type {QuestionStorage} from '~/lib/questions.server';
 
 declare global {
   /**
@@ -29,6 +34,14 @@ declare global {
     PUBLIC_CUSTOMER_ACCOUNT_API_URL: string;
     PUBLIC_CHECKOUT_DOMAIN: string;
     SHOP_ID: string;
+    BACK_IN_STOCK?: KeyValueStore;
+    BACK_IN_STOCK_WEBHOOK_SECRET?: string;
+    REVIEWS?: KeyValueStore;
+    REVIEWS_MODERATION?: string;
+    REVIEWS_ADMIN_SECRET?: string;
+    QUESTIONS?: KeyValueStore;
+    QUESTIONS_ADMIN_SECRET?: string;
+    GUEST_LISTS?: KeyValueStore;
   }
 }
 
@@ -42,6 +55,10 @@ declare module '@shopify/remix-oxygen' {
     storefront: Storefront;
     customerAccount: CustomerAccount;
     cart: HydrogenCart;
+    backInStock: BackInStockStorage;
+    reviews: ReviewStorage;
+    questions: QuestionStorage;
+    guestLists: GuestListStorage;
     env: Env;
   }
 
@@ -15,7 +15,12 @@ import {
 } from '@shopify/hydrogen';
 
 import {AppSession} from '~/lib/session.server';
+import {CART_QUERY_FRAGMENT} from '~/data/fragments';
 import {getLocaleFromRequest} from '~/lib/utils';
+import {createBackInStockStorage} from '~/lib/back-in-stock.server';
+import {createReviewStorage} from '~/lib/reviews.server';
+import {createQuestionStorage} from '~/lib/questions.server';
+import {createGuestListStorage} from '~/lib/guest-lists.server';
 
 /**
  * Export a fetch handler in module format.
@@ -70,6 +75,7 @@ export default {
         customerAccount,
         getCartId: cartGetIdDefault(request.headers),
         setCartId: cartSetIdDefault(),
+        cartQueryFragment: CART_QUERY_FRAGMENT,
       });
 
       /**
@@ -85,6 +91,10 @@ export default {
           storefront,
           customerAccount,
           cart,
+          backInStock: createBackInStockStorage(env),
+          reviews: createReviewStorage(env),
+          questions: createQuestionStorage(env),
+          guestLists: createGuestListStorage(env),
           env,
         }),
       });
@@ -0,0 +1,89 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  createKVBackInStockStorage,
+  createMemoryBackInStockStorage,
+  type BackInStockSignup,
+  type BackInStockStorage,
+} from '../app/lib/back-in-stock.server';
+
+import {createMapKV} from './utils';
+
+const VARIANT_ID = 'gid://shopify/ProductVariant/1';
+const OTHER_VARIANT_ID = 'gid://shopify/ProductVariant/2';
+
+function createSignup(
+  email: string,
+  variantId = VARIANT_ID,
+  createdAt = '2026-01-01T00:00:00.000Z',
+): BackInStockSignup {
+  return {
+    email,
+    variantId,
+    locale: {country: 'US', language: 'EN', pathPrefix: ''},
+    createdAt,
+  };
+}
+
+const storages: Array<[string, () => BackInStockStorage]> = [
+  ['memory', () => createMemoryBackInStockStorage(new Map())],
+  ['KV', () => createKVBackInStockStorage(createMapKV())],
+];
+
+for (const [name, createStorage] of storages) {
+  test.describe(`Back in stock storage (${name})`, () => {
+    test('lists the signups of a variant, oldest first', async () => {
+      const storage = createStorage();
+
+      await storage.add(
+        createSignup('b@example.com', VARIANT_ID, '2026-01-01T00:00:00.000Z'),
+      );
+      await storage.add(
+        createSignup('a@example.com', VARIANT_ID, '2026-01-02T00:00:00.000Z'),
+      );
+      await storage.add(createSignup('c@example.com', OTHER_VARIANT_ID));
+
+      const signups = await storage.list(VARIANT_ID);
+      expect(signups.map(({email}) => email)).toEqual([
+        'b@example.com',
+        'a@example.com',
+      ]);
+    });
+
+    test('stores an email once per variant', async () => {
+      const storage = createStorage();
+
+      expect(await storage.add(createSignup('a@example.com'))).toBe(true);
+      expect(await storage.add(createSignup('a@example.com'))).toBe(false);
+      expect(
+        await storage.add(createSignup('a@example.com', OTHER_VARIANT_ID)),
+      ).toBe(true);
+
+      expect(await storage.list(VARIANT_ID)).toHaveLength(1);
+    });
+
+    test('keeps every signup added at the same time', async () => {
+      const storage = createStorage();
+
+      await Promise.all(
+        ['a', 'b', 'c', 'd'].map((email) =>
+          storage.add(createSignup(`${email}@example.com`)),
+        ),
+      );
+
+      expect(await storage.list(VARIANT_ID)).toHaveLength(4);
+    });
+
+    test('clears the signups of a variant only', async () => {
+      const storage = createStorage();
+
+      await storage.add(createSignup('a@example.com'));
+      await storage.add(createSignup('b@example.com'));
+      await storage.add(createSignup('c@example.com', OTHER_VARIANT_ID));
+
+      expect(await storage.clear(VARIANT_ID)).toHaveLength(2);
+      expect(await storage.list(VARIANT_ID)).toEqual([]);
+      expect(await storage.list(OTHER_VARIANT_ID)).toHaveLength(1);
+    });
+  });
+}
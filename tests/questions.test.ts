@@ -0,0 +1,149 @@
+import {test, expect} from '@playwright/test';
+
+import type {ProductQuestion} from '../app/lib/questions';
+import {
+  createKVQuestionStorage,
+  createMemoryQuestionStorage,
+  type QuestionStorage,
+} from '../app/lib/questions.server';
+
+import {createMapKV} from './utils';
+
+const PRODUCT_ID = 'gid://shopify/Product/1';
+const OTHER_PRODUCT_ID = 'gid://shopify/Product/2';
+
+function createQuestion(
+  id: string,
+  productId = PRODUCT_ID,
+  createdAt = `2026-01-0${id}T00:00:00.000Z`,
+): ProductQuestion {
+  return {
+    id,
+    productId,
+    question: `Question ${id}?`,
+    author: 'Anonymous',
+    createdAt,
+    status: 'pending',
+    answer: null,
+    answeredAt: null,
+  };
+}
+
+const storages: Array<[string, () => QuestionStorage]> = [
+  ['memory', () => createMemoryQuestionStorage(new Map())],
+  ['KV', () => createKVQuestionStorage(createMapKV())],
+];
+
+for (const [name, createStorage] of storages) {
+  test.describe(`Question storage (${name})`, () => {
+    test('lists the questions of a product, newest first', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+      await storage.add(createQuestion('2'));
+      await storage.add(createQuestion('3', OTHER_PRODUCT_ID));
+
+      const questions = await storage.list(PRODUCT_ID);
+      expect(questions.map(({id}) => id)).toEqual(['2', '1']);
+    });
+
+    test('queues pending questions of all products, oldest first', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('2'));
+      await storage.add(createQuestion('1', OTHER_PRODUCT_ID));
+      await storage.add(createQuestion('3'));
+
+      const pending = await storage.listPending();
+      expect(pending.map(({id}) => id)).toEqual(['1', '2', '3']);
+    });
+
+    test('keeps every question added at the same time', async () => {
+      const storage = createStorage();
+
+      await Promise.all(
+        ['1', '2', '3', '4'].map((id) => storage.add(createQuestion(id))),
+      );
+
+      expect(await storage.list(PRODUCT_ID)).toHaveLength(4);
+      expect(await storage.listPending()).toHaveLength(4);
+    });
+
+    test('answers a question and takes it out of the queue', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+      await storage.add(createQuestion('2'));
+
+      const question = await storage.moderate(PRODUCT_ID, '1', {
+        status: 'approved',
+        answer: 'Yes.',
+      });
+
+      expect(question).toMatchObject({status: 'approved', answer: 'Yes.'});
+      expect(question?.answeredAt).toBeTruthy();
+      expect((await storage.listPending()).map(({id}) => id)).toEqual(['2']);
+
+      const answered = await storage.listAnswered(PRODUCT_ID);
+      expect(answered.map(({id}) => id)).toEqual(['1']);
+    });
+
+    test('keeps the answer when only the status changes', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+      await storage.moderate(PRODUCT_ID, '1', {
+        status: 'approved',
+        answer: 'Yes.',
+      });
+
+      const question = await storage.moderate(PRODUCT_ID, '1', {
+        status: 'rejected',
+      });
+
+      expect(question).toMatchObject({status: 'rejected', answer: 'Yes.'});
+      expect(await storage.listAnswered(PRODUCT_ID)).toEqual([]);
+    });
+
+    test('lists an approved question once it is answered', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+      await storage.moderate(PRODUCT_ID, '1', {status: 'approved'});
+      expect(await storage.listAnswered(PRODUCT_ID)).toEqual([]);
+
+      await storage.moderate(PRODUCT_ID, '1', {
+        status: 'approved',
+        answer: 'Yes.',
+      });
+      expect(
+        (await storage.listAnswered(PRODUCT_ID)).map(({id}) => id),
+      ).toEqual(['1']);
+      expect(await storage.listAnswered(OTHER_PRODUCT_ID)).toEqual([]);
+    });
+
+    test('puts a question sent back to pending in the queue again', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+      await storage.moderate(PRODUCT_ID, '1', {status: 'rejected'});
+      expect(await storage.listPending()).toEqual([]);
+
+      await storage.moderate(PRODUCT_ID, '1', {status: 'pending'});
+      expect((await storage.listPending()).map(({id}) => id)).toEqual(['1']);
+    });
+
+    test('returns null for an unknown question', async () => {
+      const storage = createStorage();
+
+      await storage.add(createQuestion('1'));
+
+      expect(
+        await storage.moderate(OTHER_PRODUCT_ID, '1', {status: 'approved'}),
+      ).toBeNull();
+      expect(
+        await storage.moderate(PRODUCT_ID, '2', {status: 'approved'}),
+      ).toBeNull();
+    });
+  });
+}
@@ -0,0 +1,114 @@
+import {test, expect} from '@playwright/test';
+
+import {
+  createKVReviewStorage,
+  createMemoryReviewStorage,
+  type ReviewStorage,
+  type StoredReview,
+} from '../app/lib/reviews.server';
+
+import {createMapKV} from './utils';
+
+const PRODUCT_ID = 'gid://shopify/Product/1';
+const OTHER_PRODUCT_ID = 'gid://shopify/Product/2';
+
+function createReview(
+  id: string,
+  customerId = `gid://shopify/Customer/${id}`,
+  productId = PRODUCT_ID,
+): StoredReview {
+  return {
+    id,
+    productId,
+    customerId,
+    rating: 5,
+    title: `Review ${id}`,
+    body: 'Great.',
+    author: 'Anonymous',
+    createdAt: `2026-01-0${id}T00:00:00.000Z`,
+    status: 'pending',
+  };
+}
+
+const storages: Array<[string, () => ReviewStorage]> = [
+  ['memory', () => createMemoryReviewStorage(new Map())],
+  ['KV', () => createKVReviewStorage(createMapKV())],
+];
+
+for (const [name, createStorage] of storages) {
+  test.describe(`Review storage (${name})`, () => {
+    test('lists the reviews of a product, newest first', async () => {
+      const storage = createStorage();
+
+      await storage.add(createReview('1'));
+      await storage.add(createReview('2'));
+      await storage.add(createReview('3', undefined, OTHER_PRODUCT_ID));
+
+      const reviews = await storage.list(PRODUCT_ID);
+      expect(reviews.map(({id}) => id)).toEqual(['2', '1']);
+    });
+
+    test('keeps one review per customer and product', async () => {
+      const storage = createStorage();
+      const customerId = 'gid://shopify/Customer/1';
+
+      expect(await storage.add(createReview('1', customerId))).toBe(true);
+      expect(await storage.add(createReview('2', customerId))).toBe(false);
+      expect(
+        await storage.add(createReview('3', customerId, OTHER_PRODUCT_ID)),
+      ).toBe(true);
+
+      expect((await storage.list(PRODUCT_ID)).map(({id}) => id)).toEqual(['1']);
+    });
+
+    test('keeps every review added at the same time', async () => {
+      const storage = createStorage();
+
+      await Promise.all(
+        ['1', '2', '3', '4'].map((id) => storage.add(createReview(id))),
+      );
+
+      expect(await storage.list(PRODUCT_ID)).toHaveLength(4);
+    });
+
+    test('publishes a review', async () => {
+      const storage = createStorage();
+
+      await storage.add(createReview('1'));
+      await storage.add(createReview('2'));
+
+      const review = await storage.setStatus(PRODUCT_ID, '1', 'published');
+
+      expect(review).toMatchObject({id: '1', status: 'published'});
+      expect(
+        (await storage.list(PRODUCT_ID)).map(({id, status}) => [id, status]),
+      ).toEqual([
+        ['2', 'pending'],
+        ['1', 'published'],
+      ]);
+      expect(
+        await storage.setStatus(OTHER_PRODUCT_ID, '1', 'published'),
+      ).toBeNull();
+    });
+
+    test('summarizes the published reviews only', async () => {
+      const storage = createStorage();
+
+      await storage.add({...createReview('1'), rating: 4});
+      await storage.add({...createReview('2'), rating: 1});
+      await storage.add({...createReview('3'), rating: 5});
+      expect(await storage.getSummary(PRODUCT_ID)).toBeNull();
+
+      await storage.setStatus(PRODUCT_ID, '1', 'published');
+      await storage.setStatus(PRODUCT_ID, '3', 'published');
+      expect(await storage.getSummary(PRODUCT_ID)).toEqual({
+        rating: 4.5,
+        count: 2,
+      });
+
+      await storage.setStatus(PRODUCT_ID, '1', 'rejected');
+      await storage.setStatus(PRODUCT_ID, '3', 'rejected');
+      expect(await storage.getSummary(PRODUCT_ID)).toBeNull();
+    });
+  });
+}
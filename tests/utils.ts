@@ -1,3 +1,5 @@
+import type {KeyValueStore} from '../app/lib/kv.server';
+
 /**
  * Formats a number as USD. Example: 1800 => $1,800.00
  */
@@ -31,3 +33,30 @@ export function normalizePrice(price: string | null) {
       .replace('-', '.'),
   );
 }
+
+/**
+ * A KV namespace kept in a map, listing its keys in order like Workers KV
+ */
+export function createMapKV(): KeyValueStore {
+  const entries = new Map<string, string>();
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async put(key, value) {
+      entries.set(key, value);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async list({prefix}) {
+      const keys = Array.from(entries.keys())
+        .filter((key) => key.startsWith(prefix))
+        .sort()
+        .map((name) => ({name}));
+
+      return {keys, list_complete: true};
+    },
+  };
+}